@@ -1,192 +1,395 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Document } from "@langchain/core/documents";
-import { extractBasicPdfText } from '../pdf/extract';
+import { isLegacyDocFile, isUploadedFile, legacyDocMessage } from '@/lib/fileTypes';
+import { ExtractionError, extractTextFromDocument } from '@/lib/documentText';
+import { getDocument, getDocumentChunks, getDocumentVectors, isDocumentId } from '@/lib/documentStore';
+import { findPageRange } from '@/lib/pages';
+import { chunkDocuments, ChunkingOptions, ChunkMetadata, isHeadingLine, splitSentences } from '@/lib/chunking';
+import { Bm25Index, tokenize } from '@/lib/bm25';
+import { cosineSimilarity, EmbeddingProvider, getEmbeddingProvider } from '@/lib/embeddings';
+import {
+  findBestSentence,
+  findCitedChunks,
+  maximalMarginalRelevance,
+  RankedChunk,
+  reciprocalRankFusion,
+  RetrievalRequestOptions,
+  resolveRetrievalOptions,
+  semanticSearch,
+  termSimilarity
+} from '@/lib/retrieval';
+import { StoredDocument, UploadedFileData } from '@/app/types/document';
+import { ChatStage, Citation, FocusRegion, RetrieverName } from '@/app/types/chat';
+import { createSseResponse } from '@/lib/sse';
+import { getLlmProvider } from '@/lib/llm';
+import { normalizeCitationMarkers } from '@/lib/citations';
+import { ConversationTurn, earlierCitations, parseConversation, toStandaloneQuery } from '@/lib/conversation';
+import { buildAnswerPrompt, PromptTemplates, resolvePromptTemplates } from '@/lib/prompts';
+import {
+  answerSupport,
+  computeConfidence,
+  ConfidenceSignals,
+  resolveMinConfidence,
+  similaritySignal,
+  termCoverage
+} from '@/lib/confidence';
+import {
+  focusedQuestion,
+  focusMode,
+  locateFocus,
+  overlapsFocus,
+  parseFocusRegion,
+  rankFocusChunks,
+  restrictToFocus
+} from '@/lib/focus';
 
 // Configure route options
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
-// Define file type for uploads
-interface FileData {
-  name: string;
-  type: string;
-  data: string; // Base64 data
-  size?: number;
-  text?: string; // Optional pre-extracted text from client-side processing
+// Find the sentence of a passage closest in meaning to the query, for semantic
+// matches that share no terms with the question
+async function findClosestSentence(text: string, query: string, provider: EmbeddingProvider): Promise<{ sentence: string, start: number } | null> {
+  const sentences = splitSentences(text)
+    .filter(({ text: sentence }) => sentence.length >= 3 && !isHeadingLine(sentence))
+    .map(({ text: sentence, start }) => ({ sentence, start }));
+  if (sentences.length === 0) return null;
+  
+  const [queryVector, sentenceVectors] = await Promise.all([
+    provider.embedQuery(query),
+    provider.embedDocuments(sentences.map(s => s.sentence))
+  ]);
+  
+  let bestIndex = 0;
+  sentenceVectors.forEach((vector, i) => {
+    if (cosineSimilarity(queryVector, vector) > cosineSimilarity(queryVector, sentenceVectors[bestIndex])) {
+      bestIndex = i;
+    }
+  });
+  
+  return sentences[bestIndex];
 }
 
-// Define message type
-interface Message {
-  role: string;
-  content: string;
+// Retrievers that rank passages by where they are rather than by the question, left out of retriever agreement
+const CONTEXT_RETRIEVERS: RetrieverName[] = ['conversation', 'focus'];
+
+// Progress callbacks and cancellation for streamed answers
+interface QueryEvents {
+  stage: (stage: ChatStage, message: string) => void;
+  token: (text: string) => void;
+  signal: AbortSignal;
 }
 
-// Clean and normalize text
-function cleanText(text: string): string {
-  return text
-    .replace(/\s+/g, ' ')
-    .trim();
+interface QueryOptions {
+  retrieval?: RetrievalRequestOptions;
+  // Supplies precomputed chunk embeddings for a provider, when available
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>;
+  events?: QueryEvents;
+  prompt?: Partial<PromptTemplates>; // Overrides of the answer prompt templates
+  history?: ConversationTurn[]; // Earlier messages, oldest first
+  minConfidence?: number; // Answers scoring below this are withheld
+  focus?: FocusRegion; // Passage selected in a document that the question is about
 }
 
-// Find the best sentence containing a keyword
-function findBestSentence(text: string, keyword: string): string | null {
-  if (!text.toLowerCase().includes(keyword.toLowerCase())) return null;
-  
-  // Split text into sentences
-  const sentences = text.split(/(?<=[.!?])\s+/);
+// The answer to a question, as returned to the client
+interface ChatResponse {
+  text: string;
+  citations: Citation[];
+  query?: string;
+  confidence?: number; // How well the documents support the answer (0-1)
+  abstained?: boolean; // The answer was withheld because confidence was too low
+}
+
+// Send answer text as a series of word-sized tokens
+function emitTokens(text: string, events?: QueryEvents) {
+  if (!events) return;
+  for (const token of text.match(/\s*\S+\s*/g) || []) {
+    if (events.signal.aborted) return;
+    events.token(token);
+  }
+}
+
+// A sentence picked from a ranked chunk, with the chunk text kept as LLM context
+interface Snippet {
+  text: string;
+  passage: string;
+  source: string;
+  documentId?: string;
+  start: number; // Offsets of the snippet in the document's text
+  end: number;
+  page: number;
+  pageEnd?: number;
+  score: number;
+  retrievers: RetrieverName[];
+}
+
+// Answer by quoting the snippets, grouped by source (used when no LLM is available).
+// Each quote is followed by the [n] marker of its citation.
+function buildExtractiveAnswer(query: string, topSnippets: Snippet[]): string {
+  let responseText = `Based on your documents, here's what I found about "${query}":\n\n`;
   
-  // Score each sentence by relevance to keyword
-  const scoredSentences = sentences.map(sentence => {
-    const lowerSentence = sentence.toLowerCase();
-    const keywordIndex = lowerSentence.indexOf(keyword.toLowerCase());
+  // Create a more coherent answer based on the snippets
+  if (topSnippets.length === 1) {
+    // If only one relevant snippet, use it directly
+    responseText = `Based on your document "${topSnippets[0].source}", I found this information about your question:\n\n${topSnippets[0].text} [1]\n`;
+  } else {
+    // If multiple snippets, organize them by source
+    const snippetsBySource: Record<string, string[]> = {};
     
-    if (keywordIndex === -1) return { sentence, score: 0 };
+    topSnippets.forEach((snippet, index) => {
+      if (!snippetsBySource[snippet.source]) {
+        snippetsBySource[snippet.source] = [];
+      }
+      snippetsBySource[snippet.source].push(`${snippet.text} [${index + 1}]`);
+    });
     
-    // Higher score for shorter sentences that contain the keyword
-    const score = (1 / sentence.length) * 1000 + 10;
-    return { sentence, score };
-  });
-  
-  // Sort by score and get the best sentence
-  scoredSentences.sort((a, b) => b.score - a.score);
+    // Combine snippets from the same source
+    for (const [source, snippets] of Object.entries(snippetsBySource)) {
+      responseText += `From ${source}:\n${snippets.join('\n\n')}\n\n`;
+    }
+  }
   
-  return scoredSentences[0].score > 0 ? scoredSentences[0].sentence : null;
+  return responseText;
+}
+
+// Say that the documents don't answer the question instead of guessing
+function abstain(query: string, confidence: number, isFollowUp: boolean, events?: QueryEvents): ChatResponse {
+  events?.stage('generating', 'Writing the answer...');
+  const text = `I couldn't find an answer to "${query}" in your documents. They may not cover this; try rephrasing your question or adding a document that does.`;
+  emitTokens(text, events);
+  return {
+    text,
+    citations: [],
+    confidence: Number(confidence.toFixed(2)),
+    abstained: true,
+    ...(isFollowUp ? { query } : {})
+  };
 }
 
 // Process user query and generate a response
-async function processQuery(query: string, documents: Document[]): Promise<{ text: string, citations: any[] }> {
+async function processQuery(
+  question: string,
+  loadedChunks: Document<ChunkMetadata>[],
+  { retrieval, embedChunks: loadedEmbeddings, events, prompt, history = [], minConfidence, focus }: QueryOptions = {}
+): Promise<ChatResponse> {
   try {
-    console.log(`Processing query: ${query}`);
+    console.log(`Processing query: ${question}`);
+    
+    // Follow-ups like "what about the second one?" are rewritten into standalone queries;
+    // with a selected passage, "this" already refers to the selection
+    const llm = getLlmProvider();
+    const standalone = focus
+      ? { query: question, isFollowUp: false, method: 'none' as const }
+      : await toStandaloneQuery(question, history, llm, events?.signal);
+    const query = standalone.query;
+    if (standalone.isFollowUp) {
+      console.log(`Rewrote follow-up question (${standalone.method}): ${query}`);
+    }
+    
+    // A selected passage is quoted in the search and the prompt, and retrieval is limited to
+    // its surroundings or ranks them higher
+    const span = focus ? locateFocus(loadedChunks, focus) : null;
+    if (focus) {
+      console.log(span
+        ? `Focusing on ${span.source} [${span.start}, ${span.end}) (${focusMode(focus)})`
+        : `Selected passage not found in ${focus.source}, searching all documents`);
+    }
+    // Explanations and related passages are searched for by the selection alone; the question is an instruction
+    const searchQuery = !focus
+      ? query
+      : focus.action === 'explain' || focus.action === 'related' ? focus.text : `${query}\n${focus.text}`;
+    const { chunks, embedChunks } = span && focusMode(focus!) === 'restrict'
+      ? restrictToFocus(loadedChunks, span, loadedEmbeddings)
+      : { chunks: loadedChunks, embedChunks: loadedEmbeddings };
     
-    // Implement enhanced keyword-based search
-    const keywords = query.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 2)
-      // Remove common stop words
-      .filter(word => !['the', 'and', 'that', 'for', 'this', 'are', 'with'].includes(word));
+    events?.stage('retrieving', standalone.isFollowUp
+      ? `Searching for "${query}"...`
+      : `Searching ${chunks.length} passages...`);
     
-    if (keywords.length === 0) {
-      // If no meaningful keywords were found, use the whole query
-      keywords.push(...query.toLowerCase().split(/\s+/).filter(w => w.length > 2));
+    // Query terms, falling back to every word if the question is all stop words
+    let terms = Array.from(new Set(tokenize(searchQuery)));
+    if (terms.length === 0) {
+      terms = searchQuery.toLowerCase().split(/\s+/).filter(w => w.length > 1);
     }
     
-    console.log('Keywords:', keywords);
+    console.log('Query terms:', terms);
+    
+    // Score chunks with BM25 (term frequency, rarity and length normalization)
+    const index = new Bm25Index(chunks.map(chunk => chunk.pageContent));
+    const options = resolveRetrievalOptions(retrieval);
+    const rankings: Partial<Record<RetrieverName, RankedChunk[]>> = {};
+    let provider: EmbeddingProvider | null = null;
+    
+    if (options.mode !== 'semantic') {
+      rankings.lexical = index.search(terms, options.limit);
+    }
     
-    // Extract relevant snippets from documents with improved scoring
-    const relevantSnippets = [];
+    // Embedding similarity lets paraphrased questions match
+    if (options.mode !== 'lexical') {
+      try {
+        provider = getEmbeddingProvider();
+        const chunkVectors = embedChunks ? await embedChunks(provider) : undefined;
+        rankings.semantic = await semanticSearch(searchQuery, chunks, provider, options.limit, chunkVectors);
+      } catch (error) {
+        console.error('Semantic retrieval failed, using BM25 ranking:', error);
+        provider = null;
+        rankings.lexical = rankings.lexical || index.search(terms, options.limit);
+      }
+    }
     
-    for (const doc of documents) {
-      const content = doc.pageContent.toLowerCase();
-      let relevance = 0;
-      let bestSnippet = null;
+    // Follow-ups can reuse the passages cited in the previous answers
+    if (standalone.isFollowUp) {
+      rankings.conversation = findCitedChunks(chunks, earlierCitations(history));
+    }
+    
+    if (span) {
+      rankings.focus = rankFocusChunks(chunks, span);
+    }
+    
+    // Merge the rankings of each retriever with reciprocal rank fusion
+    const ranked = reciprocalRankFusion(rankings, options.weights, options.rrfK);
+    console.log(`Ranked ${ranked.length} chunks (${options.mode}${provider ? `, ${provider.name}` : ''})`);
+    
+    // Extract the best sentence of each ranked chunk
+    const relevantSnippets: Snippet[] = [];
+    const seenSnippets = new Set<string>();
+    
+    for (const { index: chunkIndex, score, retrievers } of ranked) {
+      if (events?.signal.aborted) break;
+      const chunk = chunks[chunkIndex];
+      let best = findBestSentence(chunk.pageContent, terms, index);
       
-      // Check for keyword matches with enhanced scoring
-      for (const keyword of keywords) {
-        if (content.includes(keyword)) {
-          // Higher weight for important keywords that might be the focus of the question
-          const keywordImportance = query.toLowerCase().includes(keyword) ? 2 : 1;
-          relevance += keywordImportance;
-          
-          // Try to find a good sentence containing this keyword
-          const sentence = findBestSentence(doc.pageContent, keyword);
-          if (sentence && (!bestSnippet || sentence.length < bestSnippet.length)) {
-            bestSnippet = sentence;
-          }
+      // Semantic hits may share no words with the question; compare meanings instead
+      if (!best && provider && relevantSnippets.length < 5) {
+        try {
+          best = await findClosestSentence(chunk.pageContent, searchQuery, provider);
+        } catch (error) {
+          console.error('Error embedding sentences:', error);
         }
       }
       
-      if (relevance > 0) {
-        // If we have a good sentence, use it, otherwise extract a context window
-        let snippet = '';
-        
-        if (bestSnippet) {
-          snippet = bestSnippet;
-        } else {
-          // Find the section with the highest keyword density
-          let bestPosition = 0;
-          let bestDensity = 0;
-          
-          // Scan through the document to find the best section
-          for (let i = 0; i < content.length; i += 100) {
-            let localDensity = 0;
-            const section = content.substring(i, i + 300);
-            
-            for (const keyword of keywords) {
-              const regex = new RegExp(keyword, 'gi');
-              const matches = section.match(regex);
-              if (matches) {
-                localDensity += matches.length;
-              }
-            }
-            
-            if (localDensity > bestDensity) {
-              bestDensity = localDensity;
-              bestPosition = i;
-            }
-          }
-          
-          // Extract the snippet from the best position
-          const start = Math.max(0, bestPosition);
-          const end = Math.min(doc.pageContent.length, bestPosition + 300);
-          snippet = doc.pageContent.substring(start, end);
-        }
-        
-        // Add to relevant snippets with improved metadata
-        relevantSnippets.push({
-          text: snippet,
-          source: doc.metadata.source || 'Document',
-          relevance: relevance,
-          sentenceBased: !!bestSnippet
-        });
+      // Without a matching sentence, fall back to the start of the chunk
+      const snippet = best ? best.sentence : chunk.pageContent.substring(0, 300);
+      const snippetStart = best ? best.start : 0;
+      
+      // Chunks overlap, so the same passage can be found twice
+      const absoluteStart = chunk.metadata.start + snippetStart;
+      
+      // Related passages are the ones other than the selection itself
+      if (span && focus?.action === 'related' && overlapsFocus(span, chunk.metadata, absoluteStart, absoluteStart + snippet.length)) {
+        continue;
       }
+      
+      const snippetKey = `${chunk.metadata.source}:${absoluteStart}`;
+      if (seenSnippets.has(snippetKey)) continue;
+      seenSnippets.add(snippetKey);
+      
+      relevantSnippets.push({
+        text: snippet,
+        passage: chunk.pageContent,
+        documentId: chunk.metadata.documentId,
+        start: absoluteStart,
+        end: absoluteStart + snippet.length,
+        source: chunk.metadata.source || 'Document',
+        // Resolve the page (or page range) the snippet came from
+        ...findPageRange(chunk.metadata.pageSpans, absoluteStart, absoluteStart + snippet.length),
+        score,
+        retrievers
+      });
     }
     
-    // Sort by relevance
-    relevantSnippets.sort((a, b) => b.relevance - a.relevance);
+    if (events?.signal.aborted) {
+      console.log('Query cancelled by the client');
+      return { text: '', citations: [] };
+    }
     
     // Generate a response
     if (relevantSnippets.length > 0) {
-      // Create a response based on the most relevant snippets
-      const topSnippets = relevantSnippets.slice(0, 3);
-      let responseText = `Based on your documents, here's what I found about "${query}":\n\n`;
+      // Pick relevant but non-redundant snippets; sharing a source counts as partial overlap
+      const topSnippets = maximalMarginalRelevance(
+        relevantSnippets,
+        snippet => snippet.score,
+        (a, b) => 0.8 * termSimilarity(a.text, b.text) + (a.source === b.source ? 0.2 : 0),
+        options.lambda,
+        3
+      );
       
-      // Create a more coherent answer based on the snippets
-      if (topSnippets.length === 1) {
-        // If only one relevant snippet, use it directly
-        responseText = `Based on your document "${topSnippets[0].source}", I found this information about your question:\n\n${topSnippets[0].text}\n`;
-      } else {
-        // If multiple snippets, organize them by source
-        const snippetsBySource: Record<string, string[]> = {};
-        
-        topSnippets.forEach(snippet => {
-          if (!snippetsBySource[snippet.source]) {
-            snippetsBySource[snippet.source] = [];
+      // Judge from the retrieval alone whether the passages answer the question at all
+      const threshold = resolveMinConfidence(minConfidence);
+      const evidence = topSnippets.map(snippet => snippet.passage);
+      const retrieversRun = Object.keys(rankings).filter(name => !CONTEXT_RETRIEVERS.includes(name as RetrieverName));
+      const signals: ConfidenceSignals = {
+        termCoverage: termCoverage(terms, evidence, index),
+        semanticSimilarity: rankings.semantic ? similaritySignal(rankings.semantic[0]?.score ?? 0) : undefined,
+        retrieverAgreement: retrieversRun.length > 0
+          ? topSnippets[0].retrievers.filter(name => !CONTEXT_RETRIEVERS.includes(name)).length / retrieversRun.length
+          : 0
+      };
+      let confidence = computeConfidence(signals);
+      console.log(`Retrieval confidence ${confidence.toFixed(2)} (threshold ${threshold}):`, signals);
+      
+      if (confidence < threshold) {
+        return abstain(query, confidence, standalone.isFollowUp, events);
+      }
+      
+      // Ask the LLM to answer from the chunks around the snippets, numbered like the citations
+      let responseText = '';
+      if (llm) {
+        try {
+          events?.stage('generating', `Generating the answer with ${llm.name}...`);
+          const passages = topSnippets.map(snippet => ({ ...snippet, text: snippet.passage }));
+          const promptQuestion = focus ? focusedQuestion(query, focus, span) : query;
+          const messages = buildAnswerPrompt(promptQuestion, passages, resolvePromptTemplates(prompt));
+          const generated = await llm.generate(messages, {
+            signal: events?.signal,
+            onToken: events?.token
+          });
+          responseText = normalizeCitationMarkers(generated, topSnippets.length).trim();
+          
+          // A generated answer is only as good as its grounding in the passages
+          if (responseText) {
+            confidence = computeConfidence({ ...signals, answerSupport: answerSupport(responseText, evidence) });
+            console.log(`Answer confidence ${confidence.toFixed(2)}`);
+            if (confidence < threshold) {
+              // The streamed answer is replaced by the text of the 'done' event
+              return abstain(query, confidence, standalone.isFollowUp);
+            }
           }
-          snippetsBySource[snippet.source].push(snippet.text);
-        });
-        
-        // Combine snippets from the same source
-        for (const [source, snippets] of Object.entries(snippetsBySource)) {
-          responseText += `From ${source}:\n${snippets.join('\n\n')}\n\n`;
+        } catch (error) {
+          console.error('LLM generation failed, using extractive answer:', error);
         }
       }
       
+      // Without a provider (or if it failed), quote the snippets directly
+      if (!responseText) {
+        events?.stage('generating', 'Writing the answer...');
+        responseText = buildExtractiveAnswer(query, topSnippets);
+        emitTokens(responseText, events);
+      }
+      
       // Add citations
-      const citations = topSnippets.map((snippet) => ({
+      const citations: Citation[] = topSnippets.map((snippet, index) => ({
+        marker: index + 1,
         text: snippet.text,
-        source: snippet.source
+        source: snippet.source,
+        documentId: snippet.documentId,
+        start: snippet.start,
+        end: snippet.end,
+        page: snippet.page,
+        pageEnd: snippet.pageEnd,
+        score: Number(snippet.score.toFixed(4)),
+        retrievers: snippet.retrievers
       }));
       
       return {
         text: responseText,
-        citations
+        citations,
+        confidence: Number(confidence.toFixed(2)),
+        // Tell the client how a follow-up was interpreted
+        ...(standalone.isFollowUp ? { query } : {})
       };
     } else {
-      return {
-        text: `I couldn't find specific information about "${query}" in your documents. Could you try rephrasing your question?`,
-        citations: []
-      };
+      return abstain(query, 0, standalone.isFollowUp, events);
     }
   } catch (error) {
     console.error('Error processing query:', error);
@@ -197,56 +400,93 @@ async function processQuery(query: string, documents: Document[]): Promise<{ tex
   }
 }
 
-// Extract text from document data
-async function extractTextFromDocument(file: FileData): Promise<string> {
-  try {
-    // If text was already extracted client-side, use that
-    if (file.text) {
-      console.log(`Using pre-extracted text for ${file.name}`);
-      return file.text;
-    }
-    
-    // Handle different file types
-    if (file.type === 'application/pdf') {
-      // Use direct extraction for PDFs
+// A problem with the request, answered with an HTTP status (or an error event when streaming)
+class ChatRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Chunked documents a question is answered from
+interface LoadedDocuments {
+  chunks: Document<ChunkMetadata>[];
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>;
+}
+
+// Chunks of stored documents, with their embeddings loaded from the document store
+async function loadStoredDocuments(ids: string[], chunking?: Partial<ChunkingOptions>): Promise<LoadedDocuments> {
+  const stored = await Promise.all(ids.map(id => getDocument(id)));
+  const missing = ids.filter((_, i) => !stored[i]);
+  if (missing.length > 0) {
+    throw new ChatRequestError(`Documents not found: ${missing.join(', ')}`, 404);
+  }
+  const documents = stored as StoredDocument[];
+  
+  const chunkSets = documents.map(document => getDocumentChunks(document, chunking));
+  const embedChunks = async (provider: EmbeddingProvider) => {
+    const vectorSets = await Promise.all(
+      documents.map((document, i) => getDocumentVectors(document, chunkSets[i], provider, chunking))
+    );
+    return vectorSets.flat();
+  };
+  
+  console.log(`Loaded ${ids.length} stored documents (${chunkSets.flat().length} chunks)`);
+  return { chunks: chunkSets.flat(), embedChunks };
+}
+
+// Extract and chunk files sent with the request
+async function loadUploadedFiles(
+  files: UploadedFileData[] | undefined,
+  chunking?: Partial<ChunkingOptions>
+): Promise<LoadedDocuments> {
+  // Process documents
+  const documents: Document[] = [];
+  const failures: string[] = []; // Why files couldn't be read, shown when none could
+  
+  if (files && files.length > 0) {
+    // Process files concurrently for better performance
+    const processedFiles = await Promise.all(files.map(async (file: UploadedFileData) => {
       try {
-        console.log('Using direct PDF extraction');
-        const base64Content = file.data.replace(/^data:application\/pdf;base64,/, '');
-        const extractedText = await extractBasicPdfText(base64Content);
-        return extractedText;
+        // Extract text from the file
+        const { text, pageSpans } = await extractTextFromDocument(file);
+        
+        if (text && text.length > 10) {
+          // Create a document with cleaned text
+          return new Document({
+            pageContent: text,
+            metadata: {
+              source: file.name,
+              type: file.type,
+              size: file.size || 0,
+              pageSpans
+            }
+          });
+        }
+        return null;
       } catch (error) {
-        console.error('Error in direct PDF extraction:', error);
-        return `[Error processing PDF: ${file.name}]`;
-      }
-    } else if (file.type.includes('text/')) {
-      // For text files, decode the base64
-      try {
-        const base64Content = file.data.split(',')[1] || file.data;
-        const binaryString = atob(base64Content);
-        return binaryString;
-      } catch (e) {
-        console.error('Error decoding text file:', e);
-        return `[Error decoding ${file.name}]`;
-      }
-    } else if (file.type.includes('application/json')) {
-      try {
-        const base64Content = file.data.split(',')[1] || file.data;
-        const jsonString = atob(base64Content);
-        // Parse and stringify to make it readable
-        const jsonData = JSON.parse(jsonString);
-        return JSON.stringify(jsonData, null, 2);
-      } catch (e) {
-        console.error('Error parsing JSON:', e);
-        return `[Error parsing JSON in ${file.name}]`;
+        console.error(`Error processing file ${file.name}:`, error);
+        if (error instanceof ExtractionError) failures.push(`${file.name}: ${error.message}`);
+        return null;
       }
-    } else {
-      // For other file types, just indicate we received them
-      return `[Content from ${file.name} (${file.type})]`;
+    }));
+
+    // Filter out null results and add to documents
+    for (const doc of processedFiles) {
+      if (doc) documents.push(doc);
     }
-  } catch (error) {
-    console.error('Error extracting text:', error);
-    return `[Error processing ${file.name}]`;
+    
+    console.log(`Successfully processed ${documents.length} documents`);
+  }
+  
+  if (documents.length === 0) {
+    const reasons = failures.length > 0 ? ` (${failures.join(' ')})` : '';
+    throw new ChatRequestError(`No documents could be processed successfully${reasons}`, 400);
   }
+  
+  // Rank passages rather than whole files
+  const chunks = chunkDocuments(documents, chunking);
+  console.log(`Split ${documents.length} documents into ${chunks.length} chunks`);
+  return { chunks };
 }
 
 export async function POST(req: NextRequest) {
@@ -255,68 +495,93 @@ export async function POST(req: NextRequest) {
   try {
     // Parse the request body
     const data = await req.json();
-    const { messages, files } = data;
+    const { messages, question, files, documentIds, documentId, chunking, retrieval, prompt, minConfidence, stream } = data;
     
-    console.log(`Received ${files?.length || 0} files`);
+    // A passage selected in a document preview, which the question is scoped to
+    const focus = data.focus === undefined ? undefined : parseFocusRegion(data.focus);
+    if (focus === null) {
+      return NextResponse.json({ error: 'focus must have the selected text and its source document' }, { status: 400 });
+    }
     
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
-      return NextResponse.json({ error: 'No messages provided' }, { status: 400 });
+    // Stored documents are referenced by ID; raw file payloads are still accepted
+    const ids: unknown[] = Array.isArray(documentIds) ? documentIds : documentId ? [documentId] : [];
+    
+    if (files !== undefined && (!Array.isArray(files) || !files.every(isUploadedFile))) {
+      return NextResponse.json({ error: 'files must be a list of uploaded files, each with a name, type and data' }, { status: 400 });
     }
     
-    // Get the last user message
-    const lastMessage = messages[messages.length - 1].content;
+    console.log(`Received ${ids.length} document IDs and ${files?.length || 0} files`);
     
-    // Process documents
-    const documents: Document[] = [];
+    // Reject legacy Word files up front instead of answering from a placeholder
+    const legacyDocs = (files || []).filter((file: UploadedFileData) => isLegacyDocFile(file.name, file.type));
+    if (legacyDocs.length > 0) {
+      return NextResponse.json({ 
+        error: legacyDocs.map((file: UploadedFileData) => legacyDocMessage(file.name)).join(' ')
+      }, { status: 415 });
+    }
     
-    if (files && files.length > 0) {
-      // Process files concurrently for better performance
-      const processedFiles = await Promise.all(files.map(async (file: FileData) => {
-        try {
-          // Extract text from the file
-          const text = await extractTextFromDocument(file);
-          
-          if (text && text.length > 10) {
-            // Create a document with cleaned text
-            return new Document({
-              pageContent: text,
-              metadata: {
-                source: file.name,
-                type: file.type,
-                size: file.size || 0
-              }
-            });
-          }
-          return null;
-        } catch (error) {
-          console.error(`Error processing file ${file.name}:`, error);
-          return null;
-        }
-      }));
-
-      // Filter out null results and add to documents
-      for (const doc of processedFiles) {
-        if (doc) documents.push(doc);
-      }
-      
-      console.log(`Successfully processed ${documents.length} documents`);
+    // The last message is the question; earlier ones give follow-ups their context
+    const conversation = parseConversation(messages);
+    const lastMessage = conversation.length > 0
+      ? conversation[conversation.length - 1].content
+      : question;
+    const history = conversation.slice(0, -1);
+    
+    if (!lastMessage || typeof lastMessage !== 'string') {
+      return NextResponse.json({ error: 'No messages provided' }, { status: 400 });
     }
     
-    if (documents.length === 0) {
-      return NextResponse.json({ 
-        error: 'No documents could be processed successfully' 
-      }, { status: 400 });
+    const invalidIds = ids.filter(id => !isDocumentId(id));
+    if (invalidIds.length > 0) {
+      return NextResponse.json({ error: `Invalid document IDs: ${invalidIds.join(', ')}` }, { status: 400 });
     }
     
+    const loadDocuments = (): Promise<LoadedDocuments> => ids.length > 0
+      ? loadStoredDocuments(ids as string[], chunking)
+      : loadUploadedFiles(files, chunking);
+    
+    // Streaming mode: report progress, then the answer token by token, then citations
+    if (stream) {
+      return createSseResponse(async (send, signal) => {
+        const events: QueryEvents = {
+          stage: (stage, message) => send('stage', { stage, message }),
+          token: text => send('token', { text }),
+          signal
+        };
+        
+        events.stage('extracting', ids.length > 0 ? 'Loading documents...' : 'Extracting text from documents...');
+        const { chunks, embedChunks } = await loadDocuments();
+        if (signal.aborted) return;
+        
+        const response = await processQuery(lastMessage, chunks, {
+          retrieval, embedChunks, events, prompt, history, minConfidence, focus
+        });
+        send('citations', { citations: response.citations });
+        send('done', {
+          text: response.text,
+          query: response.query,
+          confidence: response.confidence,
+          abstained: response.abstained
+        });
+      }, req.signal);
+    }
+    
+    const { chunks, embedChunks } = await loadDocuments();
+    
     // Process the query against the documents
-    const response = await processQuery(lastMessage, documents);
+    const response = await processQuery(lastMessage, chunks, {
+      retrieval, embedChunks, prompt, history, minConfidence, focus
+    });
     
     // Return the response
     return NextResponse.json(response);
   } catch (error: any) {
+    if (error instanceof ChatRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error in chat API route:', error);
     return NextResponse.json({ 
       error: `Error processing request: ${error.message || 'Unknown error'}` 
     }, { status: 500 });
   }
-} 
+}
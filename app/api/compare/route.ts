@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocument, getDocumentChunks, getDocumentVectors, isDocumentId } from '@/lib/documentStore';
+import { compareDocuments, ComparisonInput } from '@/lib/compare';
+import { resolveRetrievalOptions } from '@/lib/retrieval';
+import { getLlmProvider } from '@/lib/llm';
+import { StoredDocument } from '@/app/types/document';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Compare what two or more stored documents say about the same question
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/compare');
+
+  try {
+    const { question, documentIds, retrieval, minConfidence } = await req.json();
+
+    if (!question || typeof question !== 'string' || !question.trim()) {
+      return NextResponse.json({ error: 'No question provided' }, { status: 400 });
+    }
+
+    const ids: unknown[] = Array.isArray(documentIds) ? Array.from(new Set(documentIds)) : [];
+    if (ids.length < 2) {
+      return NextResponse.json({ error: 'Select at least two documents to compare' }, { status: 400 });
+    }
+
+    const invalidIds = ids.filter(id => !isDocumentId(id));
+    if (invalidIds.length > 0) {
+      return NextResponse.json({ error: `Invalid document IDs: ${invalidIds.join(', ')}` }, { status: 400 });
+    }
+
+    const stored = await Promise.all((ids as string[]).map(id => getDocument(id)));
+    const missing = ids.filter((_, i) => !stored[i]);
+    if (missing.length > 0) {
+      return NextResponse.json({ error: `Documents not found: ${missing.join(', ')}` }, { status: 404 });
+    }
+
+    const inputs: ComparisonInput[] = (stored as StoredDocument[]).map(document => {
+      const chunks = getDocumentChunks(document);
+      return {
+        documentId: document.id,
+        source: document.name,
+        chunks,
+        embedChunks: provider => getDocumentVectors(document, chunks, provider)
+      };
+    });
+
+    console.log(`Comparing ${inputs.length} documents: ${question}`);
+    const comparison = await compareDocuments(question.trim(), inputs, {
+      retrieval: resolveRetrievalOptions(retrieval),
+      llm: getLlmProvider(),
+      minConfidence,
+      signal: req.signal
+    });
+
+    return NextResponse.json(comparison);
+  } catch (error: any) {
+    console.error('Error in compare API route:', error);
+    return NextResponse.json({
+      error: `Error comparing documents: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
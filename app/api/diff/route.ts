@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRequestedDocument } from '@/lib/documentStore';
+import { diffDocuments } from '@/lib/diff';
+import { renderRedlineHtml } from '@/lib/redlineExport';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// A version's text, or the response to send when it can't be read
+type VersionText =
+  | { name: string; documentId?: string; text: string }
+  | { error: NextResponse };
+
+// Load a version given as a stored document (`documentId`) or an uploaded file (`file`)
+async function loadVersion(version: unknown, label: string): Promise<VersionText> {
+  const requested = await loadRequestedDocument(version, `for the ${label} version`);
+  if ('error' in requested) {
+    return { error: NextResponse.json({ error: requested.error }, { status: requested.status }) };
+  }
+  const { stored, source, text } = requested.document;
+  return { name: source, documentId: stored?.id, text };
+}
+
+// Redline two versions of a document, as JSON or (`format: 'html'`) a downloadable page
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/diff');
+
+  try {
+    const { before, after, format } = await req.json();
+
+    const previous = await loadVersion(before, 'before');
+    if ('error' in previous) return previous.error;
+    const current = await loadVersion(after, 'after');
+    if ('error' in current) return current.error;
+
+    if (!previous.text.trim() || !current.text.trim()) {
+      return NextResponse.json({ error: 'Both versions need text to compare' }, { status: 422 });
+    }
+
+    console.log(`Diffing ${previous.name} against ${current.name}`);
+    const diff = diffDocuments(
+      previous.text,
+      current.text,
+      { name: previous.name, documentId: previous.documentId },
+      { name: current.name, documentId: current.documentId }
+    );
+
+    if (format === 'html') {
+      const filename = `redline-${current.name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')}.html`;
+      return new NextResponse(renderRedlineHtml(diff), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      });
+    }
+
+    return NextResponse.json(diff);
+  } catch (error: any) {
+    console.error('Error in diff API route:', error);
+    return NextResponse.json({
+      error: `Error comparing versions: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
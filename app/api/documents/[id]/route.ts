@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteDocument, getDocument } from '@/lib/documentStore';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Get a stored document with its extracted text
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const document = await getDocument(params.id);
+    
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json(document);
+  } catch (error: any) {
+    console.error(`Error loading document ${params.id}:`, error);
+    return NextResponse.json({ 
+      error: `Error loading document: ${error.message || 'Unknown error'}` 
+    }, { status: 500 });
+  }
+}
+
+// Delete a stored document and its index
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = await deleteDocument(params.id);
+    
+    if (!deleted) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ id: params.id, deleted: true });
+  } catch (error: any) {
+    console.error(`Error deleting document ${params.id}:`, error);
+    return NextResponse.json({ 
+      error: `Error deleting document: ${error.message || 'Unknown error'}` 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UploadedFileData } from '@/app/types/document';
+import { isLegacyDocFile, isUploadedFile, legacyDocMessage } from '@/lib/fileTypes';
+import { extractTextFromDocument } from '@/lib/documentText';
+import { getEmbeddingProvider } from '@/lib/embeddings';
+import { listDocuments, saveDocument } from '@/lib/documentStore';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// List stored documents
+export async function GET() {
+  try {
+    const documents = await listDocuments();
+    return NextResponse.json({ documents });
+  } catch (error: any) {
+    console.error('Error listing documents:', error);
+    return NextResponse.json({ 
+      error: `Error listing documents: ${error.message || 'Unknown error'}` 
+    }, { status: 500 });
+  }
+}
+
+// Upload files: extract, index and store each one, returning their IDs
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/documents');
+  
+  try {
+    const { files } = await req.json();
+    
+    if (!files || !Array.isArray(files) || files.length === 0) {
+      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    }
+    
+    if (!files.every(isUploadedFile)) {
+      return NextResponse.json({ error: 'Each file must have a name, type and data' }, { status: 400 });
+    }
+    
+    // Reject legacy Word files up front instead of storing a placeholder
+    const legacyDocs = files.filter((file: UploadedFileData) => isLegacyDocFile(file.name, file.type));
+    if (legacyDocs.length > 0) {
+      return NextResponse.json({ 
+        error: legacyDocs.map((file: UploadedFileData) => legacyDocMessage(file.name)).join(' ')
+      }, { status: 415 });
+    }
+    
+    const provider = getEmbeddingProvider();
+    const documents = [];
+    const errors = [];
+    
+    // One at a time, so large uploads don't hold every file's text in memory at once
+    for (const file of files as UploadedFileData[]) {
+      try {
+        const extracted = await extractTextFromDocument(file);
+        
+        if (!extracted.text || extracted.text.length <= 10) {
+          errors.push({ name: file.name, error: 'No text could be extracted from this file' });
+          continue;
+        }
+        
+        documents.push(await saveDocument(file, extracted, provider));
+      } catch (error: any) {
+        console.error(`Error storing file ${file.name}:`, error);
+        errors.push({ name: file.name, error: error.message || 'Unknown error' });
+      }
+    }
+    
+    if (documents.length === 0) {
+      return NextResponse.json({ 
+        error: 'No documents could be processed successfully',
+        errors
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json({ documents, errors }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error in documents API route:', error);
+    return NextResponse.json({ 
+      error: `Error processing upload: ${error.message || 'Unknown error'}` 
+    }, { status: 500 });
+  }
+}
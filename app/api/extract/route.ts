@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentVectors, getRequestedChunks, loadRequestedDocument } from '@/lib/documentStore';
+import { extractFields, ExtractionInput, parseSchema } from '@/lib/extract';
+import { resolveRetrievalOptions } from '@/lib/retrieval';
+import { getLlmProvider } from '@/lib/llm';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Extract the fields of a schema from a stored document (`documentId`) or an uploaded file (`file`)
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/extract');
+
+  try {
+    const { documentId, file, schema, retrieval } = await req.json();
+
+    const parsed = parseSchema(schema);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const requested = await loadRequestedDocument({ documentId, file }, 'to extract from');
+    if ('error' in requested) {
+      return NextResponse.json({ error: requested.error }, { status: requested.status });
+    }
+
+    // Stored documents reuse their chunk embeddings
+    const { stored, source } = requested.document;
+    const chunks = getRequestedChunks(requested.document);
+    const input: ExtractionInput = stored
+      ? { documentId: stored.id, source, chunks, embedChunks: provider => getDocumentVectors(stored, chunks, provider) }
+      : { source, chunks };
+
+    if (input.chunks.length === 0 || input.chunks.every(chunk => !chunk.pageContent.trim())) {
+      return NextResponse.json({ error: 'The document has no text to extract from' }, { status: 422 });
+    }
+
+    console.log(`Extracting ${parsed.fields.length} fields from ${input.source}`);
+    const result = await extractFields(parsed.fields, input, {
+      retrieval: resolveRetrievalOptions(retrieval),
+      llm: getLlmProvider(),
+      signal: req.signal
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error in extract API route:', error);
+    return NextResponse.json({
+      error: `Error extracting data: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
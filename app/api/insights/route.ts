@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRequestedDocument } from '@/lib/documentStore';
+import { CitableText } from '@/lib/citations';
+import { analyzeDocument } from '@/lib/insights';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Key phrases, entities and defined terms of a stored document (`documentId`) or an uploaded file (`file`)
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/insights');
+
+  try {
+    const { documentId, file } = await req.json();
+
+    const requested = await loadRequestedDocument({ documentId, file }, 'to analyze');
+    if ('error' in requested) {
+      return NextResponse.json({ error: requested.error }, { status: requested.status });
+    }
+    const { stored, source, text, pageSpans } = requested.document;
+    const document: CitableText = { documentId: stored?.id, source, text, pageSpans };
+
+    if (!document.text.trim()) {
+      return NextResponse.json({ error: 'The document has no text to analyze' }, { status: 422 });
+    }
+
+    const insights = analyzeDocument(document);
+    console.log(`Found ${insights.keyPhrases.length} key phrases, ${insights.entities.length} entities and ${insights.glossary.length} defined terms in ${document.source}`);
+
+    return NextResponse.json(insights);
+  } catch (error: any) {
+    console.error('Error in insights API route:', error);
+    return NextResponse.json({
+      error: `Error analyzing document: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
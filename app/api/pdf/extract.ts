@@ -1,116 +1,135 @@
+import path from 'path';
+import { getDocument, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf';
+import { TextContent } from 'pdfjs-dist/types/src/display/api';
+import { PageSpan } from '@/app/types/document';
+import { joinPages } from '@/lib/pages';
+
+// Result of server-side PDF extraction
+export interface PdfExtractionResult {
+  text: string;
+  pages: number;
+  // Character range of each page within text (empty when page boundaries are unknown)
+  pageSpans: PageSpan[];
+}
+
+// Node's own require, which webpack leaves alone, so pdfjs-dist resolves from where the server code runs
+declare const __non_webpack_require__: NodeRequire;
+const nodeRequire: NodeRequire = typeof __non_webpack_require__ === 'function' ? __non_webpack_require__ : require;
+
+// pdf.js reads the predefined CMaps (CID fonts) and standard font data from its own package
+function pdfjsDataDir(name: string): string {
+  return path.join(path.dirname(nodeRequire.resolve('pdfjs-dist/package.json')), name) + path.sep;
+}
+
+// A page's text, with a line break wherever pdf.js found the end of a line
+function pageText(content: TextContent): string {
+  return content.items
+    .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+}
+
 /**
- * Basic PDF text extraction utility that works in the Edge runtime
- * This is a fallback for when the dedicated PDF processing endpoint can't be reached
+ * Server-side PDF text extraction with pdf.js, which handles compressed
+ * streams, embedded and CID fonts, and files encrypted only to restrict
+ * printing or copying. Only falls back to scanning the raw bytes for string
+ * literals when pdf.js cannot open the file. Throws, with a message for the
+ * user, when no text can be extracted.
  */
-export async function extractBasicPdfText(base64Data: string): Promise<string> {
+export async function extractPdfContent(base64Data: string): Promise<PdfExtractionResult> {
+  // Clean the base64 data
+  const cleanedData = base64Data.replace(/^data:application\/pdf;base64,/, '');
+  const bytes = new Uint8Array(Buffer.from(cleanedData, 'base64'));
+
+  let pages: string[] | null = null;
   try {
-    // Clean the base64 data
-    const cleanedData = base64Data.replace(/^data:application\/pdf;base64,/, '');
-    
-    // Decode base64 to a string
-    let decodedData = '';
+    // pdf.js takes ownership of the buffer it is given, so keep the original for the fallback
+    const pdfDocument = await getDocument({
+      data: bytes.slice(),
+      cMapUrl: pdfjsDataDir('cmaps'),
+      cMapPacked: true,
+      standardFontDataUrl: pdfjsDataDir('standard_fonts'),
+      isEvalSupported: false,
+      verbosity: VerbosityLevel.ERRORS
+    }).promise;
+
     try {
-      decodedData = atob(cleanedData);
-    } catch (e) {
-      console.error('Error decoding base64:', e);
-      return 'Error decoding PDF data';
-    }
-    
-    // Find text fragments using multiple approaches for better extraction
-    const textFragments: string[] = [];
-    
-    // 1. Look for text between parentheses (common PDF text encoding)
-    const textRegex = /\(([^)]+)\)/g;
-    let match;
-    
-    while ((match = textRegex.exec(decodedData)) !== null) {
-      // If the match looks like text (not binary data)
-      if (/^[\x20-\x7E\s]+$/.test(match[1]) && match[1].length > 1) {
-        textFragments.push(match[1]);
-      }
-    }
-    
-    // 2. Look for text after /Text markers
-    const textMarkerRegex = /\/Text[^(]*\(([^)]+)\)/g;
-    while ((match = textMarkerRegex.exec(decodedData)) !== null) {
-      if (/^[\x20-\x7E\s]+$/.test(match[1]) && match[1].length > 1) {
-        textFragments.push(match[1]);
-      }
-    }
-    
-    // 3. Look for text preceded by /TJ markers (another common text marker)
-    const tjRegex = /\/TJ\s*\[\s*(?:\([^)]+\)\s*)+\]/g;
-    const innerTextRegex = /\(([^)]+)\)/g;
-    
-    let tjMatch;
-    while ((tjMatch = tjRegex.exec(decodedData)) !== null) {
-      // Extract inner text
-      let innerMatch;
-      const tjContent = tjMatch[0];
-      while ((innerMatch = innerTextRegex.exec(tjContent)) !== null) {
-        if (/^[\x20-\x7E\s]+$/.test(innerMatch[1]) && innerMatch[1].length > 1) {
-          textFragments.push(innerMatch[1]);
-        }
-      }
-    }
-    
-    // 4. Look for words after /Tj (single string text operators)
-    const tjWordRegex = /\/Tj\s*\(([^)]+)\)/g;
-    while ((match = tjWordRegex.exec(decodedData)) !== null) {
-      if (/^[\x20-\x7E\s]+$/.test(match[1]) && match[1].length > 1) {
-        textFragments.push(match[1]);
-      }
-    }
-    
-    // 5. Look for content after /Contents marker
-    const contentRegex = /\/Contents\s*\(([^)]+)\)/g;
-    while ((match = contentRegex.exec(decodedData)) !== null) {
-      if (/^[\x20-\x7E\s]+$/.test(match[1]) && match[1].length > 1) {
-        textFragments.push(match[1]);
+      pages = [];
+      for (let i = 1; i <= pdfDocument.numPages; i++) {
+        const page = await pdfDocument.getPage(i);
+        pages.push(pageText(await page.getTextContent()));
+        page.cleanup();
       }
+    } finally {
+      await pdfDocument.destroy();
     }
-    
-    // 6. Look for text immediately after BT (Begin Text) markers
-    const btRegex = /BT\s*\(([^)]+)\)/g;
-    while ((match = btRegex.exec(decodedData)) !== null) {
-      if (/^[\x20-\x7E\s]+$/.test(match[1]) && match[1].length > 1) {
-        textFragments.push(match[1]);
-      }
+    if (pages.length === 0) console.warn('PDF has no pages, falling back to raw string scan');
+  } catch (error: any) {
+    // Without the password the content can't be read, so don't scan the raw bytes either
+    if (error?.name === 'PasswordException') {
+      throw new Error('This PDF is password-protected, so its text cannot be extracted. Please upload an unprotected copy.');
     }
-    
-    // 7. Try to find sequences of words by looking for text patterns
-    const wordSequenceRegex = /\(([a-zA-Z0-9,\.\s']{3,})\)/g;
-    while ((match = wordSequenceRegex.exec(decodedData)) !== null) {
-      if (match[1].split(/\s+/).length > 2) { // Only include if it has multiple words
-        textFragments.push(match[1]);
-      }
+    console.error('Error parsing PDF, falling back to raw string scan:', error);
+    pages = null;
+  }
+
+  if (pages && pages.length > 0) {
+    const { text, pageSpans } = joinPages(pages);
+    if (text.length < 10) {
+      throw new Error("This PDF doesn't contain extractable text. It might be scanned or image-based.");
     }
-    
-    // Join all found text fragments
-    let extractedText = textFragments.join(' ');
-    
-    // Clean up the text
-    extractedText = extractedText
-      .replace(/\\n/g, '\n')
-      .replace(/\\r/g, '')
-      .replace(/\\\(/g, '(')
-      .replace(/\\\)/g, ')')
-      .replace(/\\/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-    
-    // Remove duplicate fragments that often occur in PDFs
-    const sentences = extractedText.split(/[.!?]\s+/);
-    const uniqueSentences = Array.from(new Set(sentences));
-    extractedText = uniqueSentences.join('. ');
-    
-    if (extractedText.length < 10) {
-      return "This PDF file doesn't contain easily extractable text. It might be scanned or image-based.";
+    return { text, pages: pages.length, pageSpans };
+  }
+
+  const fallbackText = extractRawPdfStrings(bytes);
+  if (fallbackText.length < 10) {
+    throw new Error('Unable to extract meaningful text from this PDF.');
+  }
+  return { text: fallbackText, pages: countPageObjects(bytes), pageSpans: [] };
+}
+
+/**
+ * Extract the text of a base64-encoded PDF as a single string, without page boundaries
+ */
+export async function extractBasicPdfText(base64Data: string): Promise<string> {
+  const result = await extractPdfContent(base64Data);
+  return result.text;
+}
+
+// Count /Type /Page objects in files too damaged for pdf.js
+function countPageObjects(bytes: Uint8Array): number {
+  const raw = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+  return (raw.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+}
+
+// Last-resort extraction: scan the raw bytes for uncompressed (...) string literals
+function extractRawPdfStrings(bytes: Uint8Array): string {
+  const decodedData = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+  const textFragments: string[] = [];
+
+  // Look for text between parentheses (common PDF text encoding)
+  const textRegex = /\(([^)]+)\)/g;
+  let match;
+
+  while ((match = textRegex.exec(decodedData)) !== null) {
+    // If the match looks like text (not binary data)
+    if (/^[\x20-\x7E\s]+$/.test(match[1]) && match[1].length > 1) {
+      textFragments.push(match[1]);
     }
-    
-    return extractedText || "Unable to extract meaningful text from this PDF.";
-  } catch (error) {
-    console.error("Error in basic PDF extraction:", error);
-    return "Failed to extract text from PDF document.";
   }
-} 
\ No newline at end of file
+
+  // Join all found text fragments and clean up escapes
+  const extractedText = textFragments.join(' ')
+    .replace(/\\n/g, '\n')
+    .replace(/\\r/g, '')
+    .replace(/\\\(/g, '(')
+    .replace(/\\\)/g, ')')
+    .replace(/\\/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Remove duplicate fragments that often occur in PDFs
+  const sentences = extractedText.split(/[.!?]\s+/);
+  return Array.from(new Set(sentences)).join('. ');
+}
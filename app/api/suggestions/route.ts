@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRequestedDocument } from '@/lib/documentStore';
+import { getLlmProvider } from '@/lib/llm';
+import { resolveSuggestionCount, SuggestionInput, suggestQuestions } from '@/lib/suggestions';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Suggest starter questions for a stored document (`documentId`) or an uploaded file (`file`)
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/suggestions');
+
+  try {
+    const { documentId, file, count } = await req.json();
+
+    const requested = await loadRequestedDocument({ documentId, file }, 'to suggest questions for');
+    if ('error' in requested) {
+      return NextResponse.json({ error: requested.error }, { status: requested.status });
+    }
+    const { stored, source, text, pageSpans } = requested.document;
+    const input: SuggestionInput = { documentId: stored?.id, source, text, pageSpans };
+
+    if (!input.text.trim()) {
+      return NextResponse.json({ error: 'The document has no text to suggest questions from' }, { status: 422 });
+    }
+
+    const suggestions = await suggestQuestions(input, {
+      count: resolveSuggestionCount(count),
+      llm: getLlmProvider(),
+      signal: req.signal
+    });
+    console.log(`Suggested ${suggestions.questions.length} questions for ${input.source} (${suggestions.method})`);
+
+    return NextResponse.json(suggestions);
+  } catch (error: any) {
+    console.error('Error in suggestions API route:', error);
+    return NextResponse.json({
+      error: `Error suggesting questions: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestedChunks, loadRequestedDocument } from '@/lib/documentStore';
+import { getLlmProvider } from '@/lib/llm';
+import { resolveSummaryLength, SUMMARY_CHUNKING, summarizeDocument } from '@/lib/summarize';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Summarize a stored document (`documentId`) or an uploaded file (`file`)
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/summarize');
+
+  try {
+    const { documentId, file, length } = await req.json();
+    const summaryLength = resolveSummaryLength(length);
+
+    const requested = await loadRequestedDocument({ documentId, file }, 'to summarize');
+    if ('error' in requested) {
+      return NextResponse.json({ error: requested.error }, { status: requested.status });
+    }
+    const chunks = getRequestedChunks(requested.document, SUMMARY_CHUNKING);
+
+    if (chunks.length === 0 || chunks.every(chunk => !chunk.pageContent.trim())) {
+      return NextResponse.json({ error: 'The document has no text to summarize' }, { status: 422 });
+    }
+
+    console.log(`Summarizing ${chunks[0].metadata.source} (${summaryLength}, ${chunks.length} chunks)`);
+    const summary = await summarizeDocument(chunks, {
+      length: summaryLength,
+      llm: getLlmProvider(),
+      signal: req.signal
+    });
+
+    return NextResponse.json(summary);
+  } catch (error: any) {
+    console.error('Error in summarize API route:', error);
+    return NextResponse.json({
+      error: `Error summarizing document: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRequestedDocument } from '@/lib/documentStore';
+import { buildTimeline, isIsoDate, TimelineInput } from '@/lib/timeline';
+
+// Configure route options
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Dated events of a stored document (`documentId`) or an uploaded file (`file`), in chronological order
+export async function POST(req: NextRequest) {
+  console.log('POST request received at /api/timeline');
+
+  try {
+    const { documentId, file, documentDate } = await req.json();
+
+    if (documentDate !== undefined && !isIsoDate(documentDate)) {
+      return NextResponse.json({ error: 'documentDate must be a date in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const requested = await loadRequestedDocument({ documentId, file }, 'to build a timeline for');
+    if ('error' in requested) {
+      return NextResponse.json({ error: requested.error }, { status: requested.status });
+    }
+    const { stored, source, text, pageSpans } = requested.document;
+    const input: TimelineInput = { documentId: stored?.id, source, text, pageSpans, uploadedAt: stored?.createdAt };
+
+    if (!input.text.trim()) {
+      return NextResponse.json({ error: 'The document has no text to build a timeline from' }, { status: 422 });
+    }
+
+    const timeline = buildTimeline(input, documentDate);
+    console.log(`Found ${timeline.events.length} dated events in ${input.source} (document date: ${timeline.documentDate ?? 'none'})`);
+
+    return NextResponse.json(timeline);
+  } catch (error: any) {
+    console.error('Error in timeline API route:', error);
+    return NextResponse.json({
+      error: `Error building timeline: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
@@ -3,57 +3,40 @@
 import { useState, useRef, FormEvent, useEffect } from 'react';
 import ChatMessage from './ChatMessage';
 import LoadingSpinner from './LoadingSpinner';
-import { Message } from '../types/chat';
+import SessionSidebar from './SessionSidebar';
+import { ChatSession, Citation, FocusAction, FocusRegion, Message } from '../types/chat';
+import { DocumentSummary, UploadedFileData } from '../types/document';
+import { DocumentSummaryResult, SummaryLength } from '../types/summary';
+import { ComparisonResult } from '../types/compare';
+import { SuggestionResult } from '../types/suggestions';
 import { AnimatePresence } from 'framer-motion';
 import FilePreview from '../../components/FilePreview';
+import { SelectedText } from '../../components/SelectionMenu';
 import { extractTextFromPdf } from '../../lib/pdfUtils';
 import CheckPdfWorker from '../../components/CheckPdfWorker';
+import { isLegacyDocFile, legacyDocMessage } from '../../lib/fileTypes';
+import { readSseEvents } from '../../lib/sse';
+import {
+  clearLegacySession,
+  createSession,
+  DEFAULT_SESSION_NAME,
+  filterSessions,
+  openSessionStore,
+  readLegacySession,
+  SessionStore
+} from '../../lib/sessionStore';
 
-// Safe storage helper functions with improved error handling
-const safeLocalStorage = {
-  getItem: (key: string): string | null => {
-    if (typeof window === 'undefined') return null;
-    
-    try {
-      // First check if localStorage is actually available
-      if (window.localStorage === undefined) return null;
-      
-      // Attempt to read directly without testing first (reduces operations)
-      return window.localStorage.getItem(key);
-    } catch (e) {
-      console.warn('Local storage access denied:', e);
-      return null;
-    }
-  },
-  setItem: (key: string, value: string): boolean => {
-    if (typeof window === 'undefined') return false;
-    
-    try {
-      // First check if localStorage is actually available
-      if (window.localStorage === undefined) return false;
-      
-      // Attempt to write directly
-      window.localStorage.setItem(key, value);
-      return true;
-    } catch (e) {
-      console.warn('Local storage access denied:', e);
-      return false;
-    }
-  },
-  isAvailable: (): boolean => {
-    if (typeof window === 'undefined') return false;
-    
-    try {
-      // Use a simpler test that doesn't try to write
-      return !!window.localStorage;
-    } catch (e) {
-      return false;
-    }
-  }
-};
+// Separate legacy .doc files, which cannot be processed, from the rest of a selection
+function rejectLegacyDocs(selected: File[]): { accepted: File[]; error: string | null } {
+  const rejected = selected.filter(file => isLegacyDocFile(file.name, file.type));
+  return {
+    accepted: selected.filter(file => !rejected.includes(file)),
+    error: rejected.length > 0 ? rejected.map(file => legacyDocMessage(file.name)).join(' ') : null
+  };
+}
 
 // Add this function to process files client-side
-async function processFilesClientSide(files: File[]): Promise<{name: string, type: string, data: string, size: number, text?: string}[]> {
+async function processFilesClientSide(files: File[]): Promise<UploadedFileData[]> {
   return Promise.all(
     files.map(async (file) => {
       // First create the basic file data
@@ -78,7 +61,8 @@ async function processFilesClientSide(files: File[]): Promise<{name: string, typ
           const result = await extractTextFromPdf(file);
           return {
             ...fileData,
-            text: result.text // Add extracted text
+            text: result.text, // Add extracted text
+            pageSpans: result.pageSpans // Keep page boundaries for citations
           };
         } catch (error) {
           console.error('Error processing PDF client-side:', error);
@@ -91,83 +75,372 @@ async function processFilesClientSide(files: File[]): Promise<{name: string, typ
   );
 }
 
+// A file in the upload list, linked to its stored document once uploaded
+interface UploadedDocument {
+  key: string;
+  name: string;
+  size: number;
+  file?: File; // Only available for files picked in this session, used for previews
+  documentId?: string;
+  status: 'uploading' | 'ready' | 'error';
+  error?: string;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const SUMMARY_LENGTH_LABELS: Record<SummaryLength, string> = {
+  'one-liner': 'One line',
+  abstract: 'Abstract',
+  sections: 'By section'
+};
+
+// Questions sent straight away for a selected passage; "Ask about this" waits for a typed one
+const FOCUS_QUESTIONS: Record<Exclude<FocusAction, 'ask'>, string> = {
+  explain: 'Explain this passage',
+  related: 'Find passages related to this'
+};
+
+// An ID for a message that is updated or looked up after it is added
+function messageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Upload a file to the document store, which extracts and indexes it once
+async function uploadDocument(file: File): Promise<DocumentSummary> {
+  const [fileData] = await processFilesClientSide([file]);
+  const response = await fetch('/api/documents', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ files: [fileData] })
+  });
+  
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.documents?.length) {
+    throw new Error(data.errors?.[0]?.error || data.error || `Upload failed with status ${response.status}`);
+  }
+  return data.documents[0];
+}
+
+// Starter questions for a stored document, built from its headings, key terms and names
+async function fetchSuggestions(documentId: string): Promise<SuggestionResult> {
+  const response = await fetch('/api/suggestions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ documentId })
+  });
+  
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Server error: ${response.status}`);
+  }
+  return data;
+}
+
+// A session's stored documents that are still in the store, as upload list entries
+async function loadSessionDocuments(ids: string[]): Promise<UploadedDocument[]> {
+  if (ids.length === 0) return [];
+  
+  const response = await fetch('/api/documents');
+  if (!response.ok) throw new Error(`Status ${response.status}`);
+  
+  const data: { documents: DocumentSummary[] } = await response.json();
+  return data.documents
+    .filter(document => ids.includes(document.id))
+    .map(document => ({
+      key: document.id,
+      name: document.name,
+      size: document.size,
+      documentId: document.id,
+      status: 'ready' as const
+    }));
+}
+
+// Untitled sessions are named after their first question
+function sessionName(question: string): string {
+  const name = question.replace(/\s+/g, ' ').trim();
+  return name.length > 40 ? `${name.slice(0, 40).trimEnd()}…` : name;
+}
+
 export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
-  const [files, setFiles] = useState<File[]>([]);
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [uploadWarning, setUploadWarning] = useState<string | null>(null);
   const [storageAvailable, setStorageAvailable] = useState<boolean>(true);
   const inputRef = useRef<HTMLInputElement>(null);
+  const formRef = useRef<HTMLFormElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const cancelledRef = useRef(false);
+  const pendingQuestionRef = useRef<string | null>(null); // ID of the question being answered
   const [processingStage, setProcessingStage] = useState<string>('');
+  const [summaryLength, setSummaryLength] = useState<SummaryLength>('abstract');
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]); // IDs of the documents to compare
+  const [citationTarget, setCitationTarget] = useState<{ key: string; citation: Citation } | null>(null);
+  const [focus, setFocus] = useState<FocusRegion | null>(null);
+  const storeRef = useRef<SessionStore | null>(null);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const openingSessionRef = useRef<string | null>(null);
+
+  const saveSession = (session: ChatSession) => {
+    storeRef.current?.save(session).catch(e => console.warn('Failed to save chat session:', e));
+  };
+
+  // Show a session's conversation and bring back its documents that are still in the store
+  const openSession = async (session: ChatSession) => {
+    openingSessionRef.current = session.id;
+    setActiveSessionId(session.id);
+    setSessionLoaded(false);
+    setMessages(session.messages);
+    setDocuments([]);
+    setCitationTarget(null);
+    setFocus(null);
+    setError(null);
+    setUploadWarning(null);
+    
+    try {
+      const restored = await loadSessionDocuments(session.documentIds);
+      if (openingSessionRef.current === session.id) setDocuments(restored);
+    } catch (e) {
+      console.warn('Failed to restore documents:', e);
+    } finally {
+      if (openingSessionRef.current === session.id) setSessionLoaded(true);
+    }
+  };
 
-  // Check if storage is available
+  // Open the session store and the most recent session on component mount
   useEffect(() => {
-    const checkStorage = () => {
-      const available = safeLocalStorage.isAvailable();
-      setStorageAvailable(available);
-      if (!available) {
-        console.warn('Browser storage is not available - some features may be limited');
+    const load = async () => {
+      const store = await openSessionStore();
+      storeRef.current = store;
+      setStorageAvailable(store.kind !== 'memory');
+      
+      let saved = await store.list();
+      if (saved.length === 0) {
+        // The chat kept before sessions existed becomes the first session
+        const legacy = readLegacySession();
+        const first = legacy ?? createSession();
+        await store.save(first);
+        if (legacy) clearLegacySession();
+        saved = [first];
       }
+      
+      saved = filterSessions(saved, '');
+      setSessions(saved);
+      await openSession(saved[0]);
     };
     
-    // Check once on mount
-    checkStorage();
+    load().catch(e => {
+      console.warn('Failed to load chat sessions:', e);
+      // Carry on with a session that isn't saved
+      const session = createSession();
+      setSessions([session]);
+      setActiveSessionId(session.id);
+      setSessionLoaded(true);
+    });
   }, []);
 
-  // Load saved messages and files from storage on component mount
-  useEffect(() => {
-    if (!storageAvailable) {
-      console.log('Browser storage is not available - skipping state restoration');
-      return;
-    }
+  // Write the active session's messages and documents to the store if they have changed
+  const persistActiveSession = () => {
+    if (!sessionLoaded) return;
+    const session = sessionsRef.current.find(s => s.id === activeSessionId);
+    if (!session) return;
     
-    // Wrap in a try/catch to be extra safe
-    try {
-      // Try to load saved messages
-      const savedMessages = safeLocalStorage.getItem('chat_messages');
-      if (savedMessages) {
-        try {
-          const parsedMessages = JSON.parse(savedMessages);
-          if (Array.isArray(parsedMessages)) {
-            setMessages(parsedMessages);
-          }
-        } catch (parseError) {
-          console.warn('Failed to parse saved messages:', parseError);
-          // Clear potentially corrupted state
-          safeLocalStorage.setItem('chat_messages', '');
-        }
-      }
-    } catch (e) {
-      console.warn('Failed to load saved chat state:', e);
-      // Don't try to clear anything, just fail silently
-    }
-  }, [storageAvailable]);
+    const documentIds = documents.filter(d => d.documentId).map(d => d.documentId as string);
+    if (session.messages === messages && documentIds.join() === session.documentIds.join()) return;
+    
+    const firstQuestion = messages.find(m => !m.isAi)?.text;
+    const updated: ChatSession = {
+      ...session,
+      name: session.name === DEFAULT_SESSION_NAME && firstQuestion ? sessionName(firstQuestion) : session.name,
+      messages,
+      documentIds,
+      updatedAt: new Date().toISOString()
+    };
+    sessionsRef.current = sessionsRef.current.map(s => s.id === updated.id ? updated : s);
+    setSessions(sessionsRef.current);
+    saveSession(updated);
+  };
 
-  // Save messages to storage when they change
+  // Save the active session when it changes
   useEffect(() => {
-    if (!storageAvailable || messages.length === 0) return;
-    
     // Use a debounced save to avoid excessive writes
-    const timeoutId = setTimeout(() => {
-      try {
-        safeLocalStorage.setItem('chat_messages', JSON.stringify(messages));
-      } catch (e) {
-        console.warn('Failed to save chat state:', e);
-        // Just log and continue, don't try to fix
-      }
-    }, 500); // 500ms debounce
+    const timeoutId = setTimeout(persistActiveSession, 500); // 500ms debounce
     
     return () => clearTimeout(timeoutId);
-  }, [messages, storageAvailable]);
+  }, [messages, documents, sessionLoaded, activeSessionId]);
 
-  // Clear saved data when clearing chat
+  // Switching sessions saves the current one first, so a pending save isn't lost
+  const selectSession = (session: ChatSession) => {
+    persistActiveSession();
+    openSession(session);
+  };
+
+  const createNewSession = () => {
+    persistActiveSession();
+    const session = createSession();
+    setSessions([session, ...sessionsRef.current]);
+    saveSession(session);
+    openSession(session);
+  };
+
+  const renameSession = (session: ChatSession, name: string) => {
+    const renamed = { ...session, name };
+    sessionsRef.current = sessionsRef.current.map(s => s.id === session.id ? renamed : s);
+    setSessions(sessionsRef.current);
+    saveSession(renamed);
+  };
+
+  // Deleting a session keeps its documents in the store, as other sessions may use them
+  // Delete a session along with the uploaded documents no other session uses
+  const deleteSession = (session: ChatSession) => {
+    storeRef.current?.remove(session.id).catch(e => console.warn('Failed to delete chat session:', e));
+    const remaining = sessionsRef.current.filter(s => s.id !== session.id);
+    const documentIds = session.id === activeSessionId
+      ? documents.filter(d => d.documentId).map(d => d.documentId as string)
+      : session.documentIds;
+    const stillUsed = new Set(remaining.flatMap(s => s.documentIds));
+    for (const documentId of Array.from(new Set(documentIds)).filter(id => !stillUsed.has(id))) {
+      fetch(`/api/documents/${documentId}`, { method: 'DELETE' })
+        .catch(e => console.warn(`Failed to delete document ${documentId}:`, e));
+    }
+    if (session.id !== activeSessionId) {
+      setSessions(remaining);
+      return;
+    }
+    
+    const next = filterSessions(remaining, '')[0] ?? createSession();
+    if (remaining.length === 0) saveSession(next);
+    setSessions(remaining.length > 0 ? remaining : [next]);
+    openSession(next);
+  };
+
+  const readyDocuments = documents.filter(d => d.status === 'ready' && d.documentId);
+  const comparedDocuments = readyDocuments.filter(d => compareSelection.includes(d.documentId!));
+  const isUploading = documents.some(d => d.status === 'uploading');
+
+  // Start the current session over; its documents stay in the store
   const clearChat = () => {
     setMessages([]);
-    setFiles([]);
+    setDocuments([]);
+    setFocus(null);
+  };
+
+  const updateDocument = (key: string, update: Partial<UploadedDocument>) => {
+    setDocuments(prev => prev.map(d => d.key === key ? { ...d, ...update } : d));
+  };
+
+  // Upload newly selected files; each one is extracted and indexed once on the server
+  const addFiles = (selected: File[]) => {
+    const { accepted, error: rejectError } = rejectLegacyDocs(selected);
+    console.log('File details:', accepted.map(f => `${f.name} (${f.size} bytes)`));
     
-    if (storageAvailable) {
-      safeLocalStorage.setItem('chat_messages', '');
+    setError(null);
+    setUploadWarning(rejectError);
+    if (accepted.length === 0) return;
+    
+    const entries: UploadedDocument[] = accepted.map(file => ({
+      key: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+      name: file.name,
+      size: file.size,
+      file,
+      status: file.size > MAX_FILE_SIZE ? 'error' : 'uploading',
+      error: file.size > MAX_FILE_SIZE ? 'Exceeds the 10MB limit' : undefined
+    }));
+    setDocuments(prev => [...prev, ...entries]);
+    
+    if (messages.length === 0) {
+      setMessages([{
+        text: "Hello! I'll help you find information in your documents. Ask me any questions about their contents.",
+        isAi: true
+      }]);
+    }
+    
+    entries.filter(entry => entry.status === 'uploading').forEach(async (entry) => {
+      try {
+        const document = await uploadDocument(entry.file!);
+        updateDocument(entry.key, { documentId: document.id, status: 'ready' });
+        suggestQuestions(entry.name, document.id);
+      } catch (e: any) {
+        console.error(`Error uploading ${entry.name}:`, e);
+        updateDocument(entry.key, { status: 'error', error: e.message || 'Upload failed' });
+      }
+    });
+  };
+
+  // Offer starter questions for a newly uploaded document; the chat works without them
+  const suggestQuestions = async (name: string, documentId: string) => {
+    try {
+      const { questions } = await fetchSuggestions(documentId);
+      if (questions.length === 0) return;
+      const suggestion: Message = {
+        text: `Here are some questions you could ask about ${name}:`,
+        isAi: true,
+        suggestions: questions.map(question => question.text)
+      };
+      setMessages(prev => {
+        // While a question is being answered, go before it so the answer stays next to its question
+        const pending = prev.findIndex(m => m.id !== undefined && m.id === pendingQuestionRef.current);
+        return pending === -1
+          ? [...prev, suggestion]
+          : [...prev.slice(0, pending), suggestion, ...prev.slice(pending)];
+      });
+    } catch (e) {
+      console.warn(`Failed to suggest questions for ${name}:`, e);
+    }
+  };
+
+  // Show a cited passage in its document's preview, opened at the cited page with the quote highlighted
+  const openCitation = (citation: Citation) => {
+    const entry = documents.find(d => citation.documentId ? d.documentId === citation.documentId : d.name === citation.source);
+    if (!entry) {
+      console.warn(`${citation.source} is no longer in the document list`);
+      return;
+    }
+    // A fresh object, so clicking the same citation again scrolls back to it
+    setCitationTarget({ key: entry.key, citation: { ...citation } });
+    document.getElementById(`preview-${entry.key}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  };
+
+  // Ask a suggested question as if it had been typed
+  const askSuggestion = (question: string) => {
+    if (!inputRef.current || isProcessing) return;
+    inputRef.current.value = question;
+    formRef.current?.requestSubmit();
+  };
+
+  // Act on a passage selected in a document's preview; its document, page and offsets go with the question
+  const askAboutSelection = (entry: UploadedDocument, action: FocusAction, selection: SelectedText) => {
+    const region: FocusRegion = { ...selection, source: entry.name, documentId: entry.documentId, action };
+    if (action === 'ask') {
+      setFocus(region);
+      inputRef.current?.focus();
+      return;
+    }
+    if (isProcessing || !readyDocuments.length) return;
+    setFocus(null);
+    askQuestion(FOCUS_QUESTIONS[action], region);
+  };
+
+  // Remove a document from the list and from the document store
+  const removeDocument = (entry: UploadedDocument) => {
+    setDocuments(prev => prev.filter(d => d.key !== entry.key));
+    if (focus && focus.documentId === entry.documentId && focus.source === entry.name) {
+      setFocus(null);
+    }
+    if (entry.documentId) {
+      fetch(`/api/documents/${entry.documentId}`, { method: 'DELETE' })
+        .catch(e => console.warn(`Failed to delete ${entry.name}:`, e));
     }
   };
 
@@ -175,118 +448,277 @@ export default function ChatInterface() {
     const fileList = event.target.files;
     if (fileList) {
       console.log('Files selected:', fileList.length);
+      addFiles(Array.from(fileList));
+      // Allow picking the same file again after removing it
+      event.target.value = '';
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  // Stop the answer that is currently streaming
+  const cancelAnswer = () => {
+    cancelledRef.current = true;
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Post a request whose JSON result becomes an answer in the chat, with the same
+   * cancel button, timeout and error handling as streamed answers
+   */
+  const runChatAction = async (
+    prompt: string,
+    stage: string,
+    url: string,
+    body: object,
+    toMessage: (data: any) => Message
+  ) => {
+    setMessages(prev => [...prev, { text: prompt, isAi: false }]);
+    setIsProcessing(true);
+    setError(null);
+    setProcessingStage(stage);
+    
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    cancelledRef.current = false;
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 120-second timeout
+    
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
       
-      const filesArray = Array.from(fileList);
-      console.log('File details:', filesArray.map(f => `${f.name} (${f.size} bytes)`));
-      
-      setFiles(filesArray);
-      setError(null);
-      if (messages.length === 0) {
-        setMessages([{
-          text: "Hello! I'll help you find information in your documents. Ask me any questions about their contents.",
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+      setMessages(prev => [...prev, toMessage(data)]);
+    } catch (error: any) {
+      if (cancelledRef.current) {
+        setMessages(prev => [...prev, { text: 'Cancelled.', isAi: true }]);
+      } else {
+        console.error(`Error calling ${url}:`, error);
+        setError(error.name === 'AbortError'
+          ? 'The request timed out. Please try again.'
+          : error.message || 'The request failed. Please try again.');
+        setMessages(prev => [...prev, {
+          text: 'Sorry, I encountered an error while processing your request. Please try again.',
           isAi: true
         }]);
       }
+    } finally {
+      clearTimeout(timeoutId);
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+      setProcessingStage('');
     }
   };
 
-  const handleDrop = (event: React.DragEvent) => {
-    event.preventDefault();
-    const fileList = event.dataTransfer.files;
-    setFiles(Array.from(fileList));
-    setError(null);
-    if (messages.length === 0) {
-      setMessages([{
-        text: "Hello! I'll help you find information in your documents. Ask me any questions about their contents.",
-        isAi: true
-      }]);
+  // Summarize a document and add the summary to the chat, with its citations
+  const summarize = async (entry: UploadedDocument, length: SummaryLength) => {
+    if (!entry.documentId) return;
+    
+    await runChatAction(
+      `Summarize ${entry.name} (${SUMMARY_LENGTH_LABELS[length].toLowerCase()})`,
+      'Summarizing...',
+      '/api/summarize',
+      { documentId: entry.documentId, length },
+      (summary: DocumentSummaryResult) => ({
+        text: summary.summary,
+        isAi: true,
+        citations: summary.sections.flatMap(section => section.citations)
+      })
+    );
+  };
+
+  // Start comparing with the first two documents selected, as the redline link does
+  const toggleCompareMode = (enabled: boolean) => {
+    setCompareMode(enabled);
+    if (enabled && comparedDocuments.length < 2) {
+      setCompareSelection(readyDocuments.slice(0, 2).map(d => d.documentId!));
+    }
+  };
+
+  const toggleCompareSelection = (documentId: string, selected: boolean) => {
+    setCompareSelection(prev => selected ? [...prev, documentId] : prev.filter(id => id !== documentId));
+  };
+
+  // Ask how the selected documents differ on a question, shown side by side
+  const compare = async (question: string) => {
+    await runChatAction(
+      question,
+      `Comparing ${comparedDocuments.length} documents...`,
+      '/api/compare',
+      { question, documentIds: comparedDocuments.map(d => d.documentId) },
+      (comparison: ComparisonResult) => ({
+        text: comparison.summary,
+        isAi: true,
+        citations: comparison.documents.flatMap(document => document.passages),
+        confidence: comparison.confidence,
+        abstained: comparison.abstained,
+        comparison
+      })
+    );
+  };
+
+  // "/summarize [one-liner|abstract|sections] [file name]": summarize matching documents, or all of them
+  const runSummarizeCommand = async (args: string) => {
+    const [first, ...rest] = args.trim().split(/\s+/);
+    const length = (Object.keys(SUMMARY_LENGTH_LABELS) as SummaryLength[]).find(l => l === first?.toLowerCase());
+    const name = (length ? rest.join(' ') : args).trim().toLowerCase();
+    const targets = readyDocuments.filter(d => !name || d.name.toLowerCase().includes(name));
+    
+    if (targets.length === 0) {
+      setError(`No uploaded document matches "${name}"`);
+      return;
+    }
+    for (const target of targets) {
+      await summarize(target, length || summaryLength);
+      if (cancelledRef.current) break;
     }
   };
 
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault();
-    if (!inputRef.current?.value.trim() || !files.length) return;
+    if (!inputRef.current?.value.trim() || !readyDocuments.length) return;
 
     const question = inputRef.current.value;
+    
+    // Commands start with a slash instead of asking a question
+    const command = question.trim().match(/^\/summari[sz]e\b(.*)$/i);
+    if (command) {
+      inputRef.current.value = '';
+      await runSummarizeCommand(command[1]);
+      return;
+    }
+
+    if (compareMode && readyDocuments.length >= 2) {
+      if (comparedDocuments.length < 2) return;
+      inputRef.current.value = '';
+      await compare(question);
+      return;
+    }
+    
+    inputRef.current.value = '';
+    setFocus(null);
+    await askQuestion(question, focus ?? undefined);
+  };
+
+  // Ask a question about the ready documents, optionally scoped to a selected passage, and stream the answer
+  const askQuestion = async (question: string, focusRegion?: FocusRegion) => {
     console.log('Submitting question:', question);
-    console.log('With files:', files.map(f => f.name));
+    console.log('With documents:', readyDocuments.map(d => d.name));
     
     // Add user message to chat
-    setMessages(prev => [...prev, { text: question, isAi: false }]);
-    inputRef.current.value = '';
+    const questionId = messageId();
+    pendingQuestionRef.current = questionId;
+    setMessages(prev => [...prev, { id: questionId, text: question, isAi: false, focus: focusRegion }]);
     setIsProcessing(true);
     setError(null);
     
-    // Show processing stages
-    setProcessingStage('Processing documents...');
+    // Set timeout for fetch to handle possible timeouts; the same controller cancels on request
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    cancelledRef.current = false;
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 120-second timeout
+    
+    // The answer message is added on the first token and updated by its ID as more arrive,
+    // so messages added meanwhile are left alone
+    const answerId = messageId();
+    let answer = '';
+    let answerStarted = false;
+    const updateAnswer = (update: Partial<Message>) => {
+      if (!answerStarted) {
+        answerStarted = true;
+        const added: Message = { id: answerId, text: answer, isAi: true, ...update };
+        setMessages(prev => [...prev, added]);
+      } else {
+        setMessages(prev => prev.map(m => m.id === answerId ? { ...m, ...update } : m));
+      }
+    };
+    
+    // Send the earlier turns (with their citations) so follow-up questions can be understood
+    const history = messages
+      .filter(m => m.text)
+      .map(m => ({ role: m.isAi ? 'assistant' : 'user', content: m.text, citations: m.citations }));
     
     try {
-      // Process files client-side when possible
-      const processedFiles = await processFilesClientSide(files);
-      console.log(`Processed ${processedFiles.length} files client-side`);
+      setProcessingStage('Sending question...');
       
-      // Set timeout for fetch to handle possible timeouts
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000); // 120-second timeout
-
-      // Update processing stage
-      setProcessingStage('Generating answer...');
-
-      // Add some random delay to prevent Next.js edge functions timing out
-      // This helps when multiple requests are being processed
-      await new Promise(resolve => setTimeout(resolve, Math.random() * 1000));
-
-      try {
-        console.log('Sending request to chat API');
-        const response = await fetch('/api/chat', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            messages: [{ content: question, role: 'user' }],
-            files: processedFiles
-          }),
-          signal: controller.signal
-        });
-
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Server error: ${response.status} - ${errorText}`);
-        }
-        
-        const data = await response.json();
-        
-        // Add response to messages
-        if (data.text) {
-          setMessages(prev => [...prev, {
-            text: data.text,
-            isAi: true,
-            citations: data.citations || []
-          }]);
-        } else if (data.error) {
+      console.log('Sending request to chat API');
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messages: [...history, { content: question, role: 'user' }],
+          documentIds: readyDocuments.map(d => d.documentId),
+          focus: focusRegion,
+          stream: true
+        }),
+        signal: controller.signal
+      });
+      
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Server error: ${response.status} - ${errorText}`);
+      }
+      
+      // Render stages, answer tokens and citations as they arrive
+      await readSseEvents(response, ({ event, data }) => {
+        if (event === 'stage') {
+          setProcessingStage(data.message);
+        } else if (event === 'token') {
+          answer += data.text;
+          updateAnswer({ text: answer });
+        } else if (event === 'citations') {
+          updateAnswer({ text: answer, citations: data.citations || [] });
+        } else if (event === 'done') {
+          if (data.text && data.text !== answer) {
+            answer = data.text;
+            updateAnswer({ text: answer });
+          }
+          if (data.query) {
+            updateAnswer({ query: data.query });
+          }
+          if (typeof data.confidence === 'number') {
+            updateAnswer({ confidence: data.confidence, abstained: !!data.abstained });
+          }
+        } else if (event === 'error') {
           throw new Error(data.error);
-        } else {
-          throw new Error('Invalid response from server');
         }
-      } catch (error: any) {
+      });
+      
+      if (!answerStarted) {
+        throw new Error('Invalid response from server');
+      }
+    } catch (error: any) {
+      if (cancelledRef.current) {
+        console.log('Answer cancelled by the user');
+        updateAnswer({ text: answer ? `${answer.trimEnd()} …\n\n(Answer cancelled)` : 'Answer cancelled.' });
+      } else {
         console.error('Error calling chat API:', error);
-        setError(error.message || 'Failed to generate a response. Please try again.');
+        setError(error.name === 'AbortError'
+          ? 'The request timed out. Please try again.'
+          : error.message || 'Failed to generate a response. Please try again.');
         setMessages(prev => [...prev, {
           text: 'Sorry, I encountered an error while processing your question. Please try again.',
           isAi: true
         }]);
       }
-    } catch (error: any) {
-      console.error('Error processing files:', error);
-      setError(error.message || 'Failed to process files. Please try again with different files.');
-      setMessages(prev => [...prev, {
-        text: 'Sorry, I encountered an error while processing your documents. Please try again with different files.',
-        isAi: true
-      }]);
     } finally {
+      clearTimeout(timeoutId);
+      abortControllerRef.current = null;
+      pendingQuestionRef.current = null;
       setIsProcessing(false);
       setProcessingStage('');
       
@@ -301,136 +733,270 @@ export default function ChatInterface() {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Effect to check file sizes
-  useEffect(() => {
-    const oversizedFiles = files.filter(file => file.size > 10 * 1024 * 1024);
-    if (oversizedFiles.length > 0) {
-      setError(`Some files exceed the 10MB limit: ${oversizedFiles.map(f => f.name).join(', ')}`);
-    }
-  }, [files]);
-
   return (
-    <>
-      <div 
-        className="glass-card p-8 mb-8 rounded-2xl border border-slate-700/50 backdrop-blur-sm"
-        onDrop={handleDrop}
-        onDragOver={(e) => e.preventDefault()}
-      >
-        {/* PDF Worker status check */}
-        <div className="mb-4">
-          <CheckPdfWorker />
-        </div>
-        
-        <div className="text-center">
-          <label htmlFor="file-upload" className="inline-block">
-            <span className="bg-primary hover:bg-primary/80 text-white font-medium px-6 py-3 rounded-xl transition-colors cursor-pointer">
-              Upload files
-            </span>
-            <input
-              id="file-upload"
-              type="file"
-              className="sr-only"
-              multiple
-              onChange={handleFileUpload}
-              accept=".pdf,.doc,.docx,.txt"
-            />
-          </label>
-          <p className="text-slate-400 mt-3">or drag and drop</p>
-          <p className="text-sm text-slate-500 mt-1">PDF, DOCX, or TXT up to 10MB each</p>
-        </div>
+    <div className="flex flex-col gap-6 lg:flex-row lg:items-start">
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSessionId}
+        disabled={isProcessing || isUploading}
+        onSelect={selectSession}
+        onCreate={createNewSession}
+        onRename={renameSession}
+        onDelete={deleteSession}
+      />
+      <div className="min-w-0 flex-1">
+        <div 
+          className="glass-card p-8 mb-8 rounded-2xl border border-slate-700/50 backdrop-blur-sm"
+          onDrop={handleDrop}
+          onDragOver={(e) => e.preventDefault()}
+        >
+          {/* PDF Worker status check */}
+          <div className="mb-4">
+            <CheckPdfWorker />
+          </div>
         
-        {error && (
-          <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
-            {error}
+          <div className="text-center">
+            <label htmlFor="file-upload" className="inline-block">
+              <span className="bg-primary hover:bg-primary/80 text-white font-medium px-6 py-3 rounded-xl transition-colors cursor-pointer">
+                Upload files
+              </span>
+              <input
+                id="file-upload"
+                type="file"
+                className="sr-only"
+                multiple
+                onChange={handleFileUpload}
+                accept=".pdf,.docx,.txt"
+              />
+            </label>
+            <p className="text-slate-400 mt-3">or drag and drop</p>
+            <p className="text-sm text-slate-500 mt-1">PDF, DOCX, or TXT up to 10MB each</p>
           </div>
-        )}
         
-        {files.length > 0 && (
-          <div className="mt-4 space-y-4">
-            <h3 className="text-sm font-medium text-slate-300">Uploaded Files</h3>
-            {files.map((file, index) => (
-              <div key={index} className="border border-slate-700/50 rounded-lg overflow-hidden">
-                <div className="flex items-center justify-between bg-slate-800/30 p-2">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-slate-300">{file.name}</span>
-                    <span className={`text-xs ${file.size > 10 * 1024 * 1024 ? 'text-red-400' : 'text-slate-500'}`}>
-                      ({Math.round(file.size / 1024)}KB)
-                    </span>
-                  </div>
-                  <button 
-                    onClick={() => setFiles(files.filter((_, i) => i !== index))}
-                    className="text-slate-400 hover:text-red-400"
-                  >
-                    Remove
-                  </button>
+          {uploadWarning && (
+            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-amber-200 text-sm">
+              {uploadWarning}
+            </div>
+          )}
+        
+          {error && (
+            <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        
+          {documents.length > 0 && (
+            <div className="mt-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-slate-300">Uploaded Files</h3>
+                <div className="flex items-center gap-4">
+                  {readyDocuments.length > 0 && (
+                    <a
+                      href={`/extract?document=${readyDocuments[0].documentId}`}
+                      className="text-xs text-slate-400 hover:text-primary"
+                    >
+                      Extract data
+                    </a>
+                  )}
+                  {readyDocuments.length >= 2 && (
+                    <a
+                      href={`/diff?before=${readyDocuments[0].documentId}&after=${readyDocuments[1].documentId}`}
+                      className="text-xs text-slate-400 hover:text-primary"
+                    >
+                      Redline versions
+                    </a>
+                  )}
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    Summary length
+                    <select
+                      value={summaryLength}
+                      onChange={(e) => setSummaryLength(e.target.value as SummaryLength)}
+                      className="bg-slate-800/50 border border-slate-700/50 rounded-md px-2 py-1 text-slate-300"
+                    >
+                      {(Object.keys(SUMMARY_LENGTH_LABELS) as SummaryLength[]).map(length => (
+                        <option key={length} value={length}>{SUMMARY_LENGTH_LABELS[length]}</option>
+                      ))}
+                    </select>
+                  </label>
                 </div>
-                <FilePreview file={file} />
               </div>
-            ))}
-          </div>
-        )}
-      </div>
-
-      <div className="chat-container rounded-2xl border border-slate-700/50 backdrop-blur-sm p-6 mb-6">
-        <div className="space-y-6">
-          {files.length === 0 ? (
-            <ChatMessage
-              message={{
-                text: "Welcome! Please upload your documents and I'll help you analyze them. I can answer questions and provide citations from your documents.",
-                isAi: true
-              }}
-            />
-          ) : (
-            <>
-              {messages.length > 0 && (
-                <div className="flex justify-end mb-4">
-                  <button 
-                    onClick={clearChat}
-                    className="text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-3 py-1.5 rounded-lg transition-colors"
-                  >
-                    Clear Chat
-                  </button>
+              {documents.map((entry) => (
+                <div key={entry.key} id={`preview-${entry.key}`} className="border border-slate-700/50 rounded-lg overflow-hidden">
+                  <div className="flex items-center justify-between bg-slate-800/30 p-2">
+                    <div className="flex items-center gap-2">
+                      {compareMode && readyDocuments.length >= 2 && entry.status === 'ready' && (
+                        <input
+                          type="checkbox"
+                          checked={compareSelection.includes(entry.documentId!)}
+                          onChange={(e) => toggleCompareSelection(entry.documentId!, e.target.checked)}
+                          disabled={isProcessing}
+                          aria-label={`Compare ${entry.name}`}
+                        />
+                      )}
+                      <span className="text-sm text-slate-300">{entry.name}</span>
+                      <span className={`text-xs ${entry.size > MAX_FILE_SIZE ? 'text-red-400' : 'text-slate-500'}`}>
+                        ({Math.round(entry.size / 1024)}KB)
+                      </span>
+                      {entry.status === 'uploading' && (
+                        <span className="text-xs text-slate-400">Indexing...</span>
+                      )}
+                      {entry.status === 'error' && (
+                        <span className="text-xs text-red-400">{entry.error}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {entry.status === 'ready' && (
+                        <button
+                          onClick={() => summarize(entry, summaryLength)}
+                          disabled={isProcessing}
+                          className="text-slate-400 hover:text-primary disabled:opacity-50"
+                        >
+                          Summarize
+                        </button>
+                      )}
+                      {entry.status === 'ready' && (
+                        <a
+                          href={`/insights?document=${entry.documentId}`}
+                          className="text-slate-400 hover:text-primary"
+                        >
+                          Insights
+                        </a>
+                      )}
+                      {entry.status === 'ready' && (
+                        <a
+                          href={`/timeline?document=${entry.documentId}`}
+                          className="text-slate-400 hover:text-primary"
+                        >
+                          Timeline
+                        </a>
+                      )}
+                      <button 
+                        onClick={() => removeDocument(entry)}
+                        className="text-slate-400 hover:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                  {(entry.file || citationTarget?.key === entry.key) && (
+                    <FilePreview
+                      file={entry.file}
+                      documentId={entry.documentId}
+                      highlight={citationTarget?.key === entry.key ? citationTarget.citation : undefined}
+                      onSelection={entry.status === 'ready'
+                        ? (action, selection) => askAboutSelection(entry, action, selection)
+                        : undefined}
+                    />
+                  )}
                 </div>
-              )}
-              {messages.map((message, index) => (
-                <ChatMessage key={index} message={message} />
               ))}
-              <AnimatePresence>
-                {isProcessing && <LoadingSpinner />}
-              </AnimatePresence>
-            </>
+            </div>
           )}
-          <div ref={chatEndRef} />
         </div>
-      </div>
-      
-      {!storageAvailable && messages.length > 0 && (
-        <div className="mb-4 p-2 bg-amber-500/10 border border-amber-500/30 rounded-lg">
-          <p className="text-amber-200 text-sm">Browser storage is not available. Your chat won't be saved if you close this page.</p>
+
+        <div className="chat-container rounded-2xl border border-slate-700/50 backdrop-blur-sm p-6 mb-6">
+          <div className="space-y-6">
+            {documents.length === 0 ? (
+              <ChatMessage
+                message={{
+                  text: "Welcome! Please upload your documents and I'll help you analyze them. I can answer questions and provide citations from your documents.",
+                  isAi: true
+                }}
+              />
+            ) : (
+              <>
+                {messages.length > 0 && (
+                  <div className="flex justify-end mb-4">
+                    <button 
+                      onClick={clearChat}
+                      className="text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                      Clear Chat
+                    </button>
+                  </div>
+                )}
+                {messages.map((message, index) => (
+                  <ChatMessage
+                    key={index}
+                    message={message}
+                    onSuggestion={isProcessing ? undefined : askSuggestion}
+                    onOpenCitation={openCitation}
+                  />
+                ))}
+                <AnimatePresence>
+                  {isProcessing && <LoadingSpinner />}
+                </AnimatePresence>
+              </>
+            )}
+            <div ref={chatEndRef} />
+          </div>
         </div>
-      )}
-
-      <form 
-        onSubmit={handleSubmit} 
-        className="flex items-center gap-4 p-4 rounded-2xl border border-slate-700/50 backdrop-blur-sm"
-      >
-        <input
-          ref={inputRef}
-          type="text"
-          placeholder="Ask a question about your documents..."
-          className="flex-1 bg-transparent border-0 focus:outline-none text-slate-300 placeholder-slate-500"
-          disabled={isProcessing || files.length === 0}
-        />
-        <button 
-          type="submit"
-          className="bg-primary hover:bg-primary/80 text-white px-6 py-2.5 rounded-xl transition-colors disabled:opacity-50 disabled:hover:bg-primary font-medium"
-          disabled={isProcessing || files.length === 0 || !!error}
+      
+        {!storageAvailable && messages.length > 0 && (
+          <div className="mb-4 p-2 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+            <p className="text-amber-200 text-sm">Browser storage is not available. Your chat won't be saved if you close this page.</p>
+          </div>
+        )}
+
+        <form 
+          ref={formRef}
+          onSubmit={handleSubmit} 
+          className="flex items-center gap-4 p-4 rounded-2xl border border-slate-700/50 backdrop-blur-sm"
         >
-          {isProcessing 
-            ? processingStage || 'Processing...' 
-            : 'Send'}
-        </button>
-      </form>
-    </>
+          {readyDocuments.length >= 2 && (
+            <label className="flex items-center gap-2 text-sm text-slate-400 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={compareMode}
+                onChange={(e) => toggleCompareMode(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Compare
+            </label>
+          )}
+          {focus && (
+            <span className="flex max-w-[40%] items-center gap-2 rounded-lg bg-slate-800/50 px-2 py-1 text-xs text-slate-400">
+              <span className="truncate" title={focus.text}>About &quot;{focus.text}&quot;</span>
+              <button
+                type="button"
+                onClick={() => setFocus(null)}
+                className="hover:text-white"
+                aria-label="Stop asking about the selected passage"
+              >
+                ×
+              </button>
+            </span>
+          )}
+          <input
+            ref={inputRef}
+            type="text"
+            placeholder={compareMode && readyDocuments.length >= 2
+              ? comparedDocuments.length >= 2 ? 'How do the selected documents differ on...?' : 'Select two or more documents to compare'
+              : focus ? 'Ask about the selected passage...' : 'Ask a question, or type /summarize...'}
+            className="flex-1 bg-transparent border-0 focus:outline-none text-slate-300 placeholder-slate-500"
+            disabled={isProcessing || readyDocuments.length === 0}
+          />
+          <button 
+            type="submit"
+            className="bg-primary hover:bg-primary/80 text-white px-6 py-2.5 rounded-xl transition-colors disabled:opacity-50 disabled:hover:bg-primary font-medium"
+            disabled={isProcessing || readyDocuments.length === 0 || !!error
+              || (compareMode && readyDocuments.length >= 2 && comparedDocuments.length < 2)}
+          >
+            {isProcessing 
+              ? processingStage || 'Processing...' 
+              : isUploading && readyDocuments.length === 0 ? 'Indexing...' : 'Send'}
+          </button>
+          {isProcessing && (
+            <button
+              type="button"
+              onClick={cancelAnswer}
+              className="text-slate-300 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-4 py-2.5 rounded-xl transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
   );
 } 
\ No newline at end of file
@@ -1,13 +1,82 @@
-import { motion } from 'framer-motion';
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
 import { Bot, User } from 'lucide-react';
-import { Message } from '@/app/types/chat';
+import { Citation, Message, RetrieverName } from '@/app/types/chat';
+import ComparisonView from './ComparisonView';
+import Markdown from './Markdown';
 
 interface ChatMessageProps {
   message: Message;
+  onSuggestion?: (question: string) => void; // Ask one of the message's suggested questions
+  onOpenCitation?: (citation: Citation) => void; // Show a cited passage in its document's preview
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
-  const { text, isAi, citations } = message;
+// How each retriever is described under a citation
+const RETRIEVER_LABELS: Record<RetrieverName, string> = {
+  lexical: 'keyword search',
+  semantic: 'semantic search',
+  conversation: 'an earlier answer',
+  focus: 'the selected passage'
+};
+
+// "Page 3" or "Pages 3–4"
+function formatPages(citation: Citation): string {
+  return citation.pageEnd && citation.pageEnd > citation.page
+    ? `Pages ${citation.page}–${citation.pageEnd}`
+    : `Page ${citation.page}`;
+}
+
+// Confidence as a percentage, coloured by how far it can be trusted
+function ConfidenceBadge({ confidence, abstained }: { confidence: number; abstained?: boolean }) {
+  const tone = abstained || confidence < 0.4
+    ? 'bg-red-500/15 text-red-300'
+    : confidence < 0.7
+      ? 'bg-amber-500/15 text-amber-300'
+      : 'bg-emerald-500/15 text-emerald-300';
+
+  return (
+    <span
+      className={`inline-block rounded-full px-2 py-0.5 text-[10px] font-medium ${tone}`}
+      title="How well the retrieved passages support this answer"
+    >
+      {abstained ? 'Not found in documents' : 'Confidence'} · {Math.round(confidence * 100)}%
+    </span>
+  );
+}
+
+export default function ChatMessage({ message, onSuggestion, onOpenCitation }: ChatMessageProps) {
+  const { text, isAi, citations, query, confidence, abstained, comparison, suggestions, focus } = message;
+  const [activeMarker, setActiveMarker] = useState<number | null>(null);
+
+  // Citations carry their marker number; older saved messages are numbered by position
+  const citationFor = (marker: number): Citation | undefined =>
+    citations?.find(c => c.marker === marker) ?? (citations?.some(c => c.marker) ? undefined : citations?.[marker - 1]);
+  const activeCitation = activeMarker !== null ? citationFor(activeMarker) : undefined;
+
+  const toggleMarker = (marker: number) => {
+    setActiveMarker(current => current === marker ? null : marker);
+  };
+
+  // [n] markers in the answer become buttons that reveal the quoted passage
+  const renderMarker = (marker: number, key: string) => {
+    if (!citationFor(marker)) return null;
+    return (
+      <button
+        key={key}
+        type="button"
+        onClick={() => toggleMarker(marker)}
+        aria-label={`Show citation ${marker}`}
+        aria-expanded={activeMarker === marker}
+        className={`mx-0.5 inline-flex items-center rounded px-1 align-super text-[10px] font-medium leading-none transition-colors ${
+          activeMarker === marker
+            ? 'bg-primary text-white'
+            : 'bg-primary/20 text-primary hover:bg-primary/40'
+        }`}
+      >
+        {marker}
+      </button>
+    );
+  };
 
   return (
     <motion.div
@@ -48,11 +117,70 @@ export default function ChatMessage({ message }: ChatMessageProps) {
           
           {/* Message text */}
           <div className="relative">
-            <p className="text-sm leading-relaxed">{text}</p>
+            {focus && (
+              <blockquote className="mb-2 border-l-2 border-white/40 pl-3 text-xs">
+                <span className="italic">&quot;{focus.text.length > 200 ? `${focus.text.slice(0, 200)}...` : focus.text}&quot;</span>
+                <span className="opacity-75"> — {focus.source}{focus.page ? `, Page ${focus.page}` : ''}</span>
+              </blockquote>
+            )}
+            {comparison && !comparison.abstained ? (
+              <p className="text-sm leading-relaxed">
+                Compared {comparison.documents.length} documents on &quot;{comparison.question}&quot;: {comparison.agreements.length} agreements, {comparison.differences.length} differences.
+              </p>
+            ) : isAi ? (
+              // Answers are Markdown; user messages are shown as typed
+              <div className="text-sm leading-relaxed">
+                <Markdown text={text} renderMarker={citations && citations.length > 0 ? renderMarker : undefined} />
+              </div>
+            ) : (
+              <p className="whitespace-pre-wrap text-sm leading-relaxed">{text}</p>
+            )}
+            <AnimatePresence>
+              {activeCitation && (
+                <motion.blockquote
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mt-3 overflow-hidden border-l-2 border-primary pl-3 text-xs"
+                >
+                  <p className="italic text-slate-300">&quot;{activeCitation.text}&quot;</p>
+                  <p className="mt-1 text-slate-500">
+                    [{activeMarker}] {activeCitation.source}, {formatPages(activeCitation)}
+                  </p>
+                </motion.blockquote>
+              )}
+            </AnimatePresence>
+            {isAi && query && (
+              <p className="mt-2 text-xs text-slate-400">Searched for: {query}</p>
+            )}
+            {isAi && confidence !== undefined && (
+              <div className="mt-2">
+                <ConfidenceBadge confidence={confidence} abstained={abstained} />
+              </div>
+            )}
+            {suggestions && suggestions.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    type="button"
+                    onClick={() => onSuggestion?.(suggestion)}
+                    disabled={!onSuggestion}
+                    className="rounded-full border border-slate-600/60 bg-slate-800/40 px-3 py-1 text-left text-xs text-slate-300 hover:border-primary/60 hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </motion.div>
 
-        {citations && citations.length > 0 && (
+        {comparison && !comparison.abstained && (
+          <ComparisonView comparison={comparison} activeMarker={activeMarker} onSelectMarker={toggleMarker} />
+        )}
+
+        {!comparison && citations && citations.length > 0 && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -68,11 +196,30 @@ export default function ChatMessage({ message }: ChatMessageProps) {
                 transition={{ delay: 0.3 + idx * 0.1 }}
                 className={`rounded-xl bg-slate-800/30 p-3 text-xs ${
                   !isAi ? 'text-right' : ''
+                } ${activeMarker === (citation.marker ?? idx + 1) ? 'ring-1 ring-primary/60' : ''} ${
+                  onOpenCitation ? 'cursor-pointer hover:bg-slate-700/40' : ''
                 }`}
+                {...(onOpenCitation && {
+                  role: 'button',
+                  tabIndex: 0,
+                  title: 'Show in document',
+                  onClick: () => onOpenCitation(citation),
+                  onKeyDown: (e: React.KeyboardEvent) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      onOpenCitation(citation);
+                    }
+                  }
+                })}
               >
-                <p className="mb-2 italic text-slate-300">&quot;{citation.text}&quot;</p>
+                <p className="mb-2 italic text-slate-300">
+                  <span className="not-italic font-medium text-primary">[{citation.marker ?? idx + 1}]</span> &quot;{citation.text}&quot;
+                </p>
                 <p className="text-slate-500">
-                  Source: {citation.source}, Page {citation.page}
+                  Source: {citation.source}, {formatPages(citation)}
+                  {citation.retrievers && citation.retrievers.length > 0 && (
+                    <> · Found by {citation.retrievers.map(r => RETRIEVER_LABELS[r]).join(' + ')}</>
+                  )}
                 </p>
               </motion.div>
             ))}
@@ -0,0 +1,95 @@
+import { motion } from 'framer-motion';
+import { Citation } from '@/app/types/chat';
+import { ComparisonPoint, ComparisonResult } from '@/app/types/compare';
+
+interface ComparisonViewProps {
+  comparison: ComparisonResult;
+  activeMarker: number | null;
+  onSelectMarker: (marker: number) => void;
+}
+
+// "p. 3" or "pp. 3–4"
+function formatPages(citation: Citation): string {
+  return citation.pageEnd && citation.pageEnd > citation.page
+    ? `pp. ${citation.page}–${citation.pageEnd}`
+    : `p. ${citation.page}`;
+}
+
+// The documents' passages in columns, then the agreements and differences that cite them
+export default function ComparisonView({ comparison, activeMarker, onSelectMarker }: ComparisonViewProps) {
+  const { documents, agreements, differences } = comparison;
+
+  const markerButton = (marker: number) => (
+    <button
+      key={marker}
+      type="button"
+      onClick={() => onSelectMarker(marker)}
+      aria-label={`Show citation ${marker}`}
+      className={`ml-1 rounded px-1 text-[10px] font-medium transition-colors ${
+        activeMarker === marker ? 'bg-primary text-white' : 'bg-primary/20 text-primary hover:bg-primary/40'
+      }`}
+    >
+      {marker}
+    </button>
+  );
+
+  const pointList = (title: string, points: ComparisonPoint[], tone: string) => (
+    <div>
+      <p className={`mb-1 text-xs font-medium ${tone}`}>{title}</p>
+      {points.length === 0 ? (
+        <p className="text-xs text-slate-500">None found.</p>
+      ) : (
+        <ul className="space-y-1 text-xs text-slate-300">
+          {points.map((point, i) => (
+            <li key={i}>
+              {point.text}
+              {point.markers.map(markerButton)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ delay: 0.2 }}
+      className="w-full space-y-3"
+    >
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${Math.min(documents.length, 3)}, minmax(0, 1fr))` }}
+      >
+        {documents.map(document => (
+          <div key={document.documentId || document.source} className="rounded-xl bg-slate-800/30 p-3 text-xs">
+            <p className="mb-2 truncate font-medium text-slate-200" title={document.source}>{document.source}</p>
+            {document.passages.length === 0 ? (
+              <p className="text-slate-500">No relevant passages found.</p>
+            ) : (
+              <div className="space-y-2">
+                {document.passages.map(passage => (
+                  <p
+                    key={passage.marker}
+                    className={`rounded-lg p-2 italic text-slate-300 ${
+                      activeMarker === passage.marker ? 'ring-1 ring-primary/60' : ''
+                    }`}
+                  >
+                    <span className="not-italic font-medium text-primary">[{passage.marker}]</span> &quot;{passage.text}&quot;
+                    <span className="not-italic text-slate-500"> ({formatPages(passage)})</span>
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-3 rounded-xl bg-slate-800/30 p-3 md:grid-cols-2">
+        {pointList('Agreements', agreements, 'text-emerald-300')}
+        {pointList('Differences', differences, 'text-amber-300')}
+      </div>
+    </motion.div>
+  );
+}
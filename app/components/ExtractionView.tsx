@@ -0,0 +1,95 @@
+import { motion } from 'framer-motion';
+import { ExtractedField, ExtractionResult, FieldValue, MoneyValue } from '@/app/types/extract';
+
+interface ExtractionViewProps {
+  result: ExtractionResult;
+}
+
+// A value as the document would write it
+function formatValue(value: FieldValue): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') {
+    const { amount, currency } = value as MoneyValue;
+    const formatted = amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return currency ? `${currency} ${formatted}` : formatted;
+  }
+  return String(value);
+}
+
+function FieldRow({ field }: { field: ExtractedField }) {
+  const values = field.value === null ? [] : Array.isArray(field.value) ? field.value : [field.value];
+  const tone = field.confidence >= 0.7 ? 'text-emerald-300' : field.confidence >= 0.4 ? 'text-amber-300' : 'text-red-300';
+
+  return (
+    <tr className="border-t border-slate-700/50 align-top">
+      <td className="py-2 pr-3 font-medium text-slate-200">
+        {field.name}
+        <span className="block text-xs font-normal text-slate-500">{field.type}{field.method ? ` · ${field.method}` : ''}</span>
+      </td>
+      <td className="py-2 pr-3 text-slate-300">
+        {values.length === 0 ? (
+          <span className="text-slate-500">Not found</span>
+        ) : (
+          <ul className="space-y-1">
+            {values.map((value, i) => (
+              <li key={i}>
+                {formatValue(value)}
+                {field.citations[i] && (
+                  <span className="block text-xs italic text-slate-500">
+                    &quot;{field.citations[i].text}&quot; (p. {field.citations[i].page})
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </td>
+      <td className={`py-2 text-right text-xs ${tone}`}>
+        {values.length > 0 && `${Math.round(field.confidence * 100)}%`}
+      </td>
+    </tr>
+  );
+}
+
+// Extracted fields with their values, the text they were read from and how sure the extraction is
+export default function ExtractionView({ result }: ExtractionViewProps) {
+  const copyJson = () => {
+    navigator.clipboard?.writeText(JSON.stringify(result.data, null, 2))
+      .catch(e => console.warn('Failed to copy extracted data:', e));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-3 rounded-xl bg-slate-800/30 p-4"
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          {result.source} · {result.method === 'llm' ? 'read by the language model' : 'read with patterns'}
+        </p>
+        <button
+          type="button"
+          onClick={copyJson}
+          className="text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-3 py-1.5 rounded-lg transition-colors"
+        >
+          Copy JSON
+        </button>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500">
+            <th className="pb-2 font-normal">Field</th>
+            <th className="pb-2 font-normal">Value</th>
+            <th className="pb-2 text-right font-normal">Confidence</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.fields.map(field => (
+            <FieldRow key={field.name} field={field} />
+          ))}
+        </tbody>
+      </table>
+    </motion.div>
+  );
+}
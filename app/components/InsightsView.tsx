@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Citation } from '@/app/types/chat';
+import { MoneyValue } from '@/app/types/extract';
+import { DocumentInsights, EntityType, NamedEntity } from '@/app/types/insights';
+
+interface InsightsViewProps {
+  insights: DocumentInsights;
+}
+
+const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: 'People',
+  organization: 'Organizations',
+  date: 'Dates',
+  amount: 'Amounts'
+};
+
+// What an entity's normalized value adds to its text, if anything
+function entityValue(entity: NamedEntity): string | null {
+  if (!entity.value) return null;
+  if (typeof entity.value === 'string') return entity.value === entity.text ? null : entity.value;
+  const { amount, currency } = entity.value as MoneyValue;
+  return `${currency ? `${currency} ` : ''}${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+// The sentences something occurs in, with their pages
+function Occurrences({ occurrences }: { occurrences: Citation[] }) {
+  return (
+    <ul className="mt-1 space-y-1">
+      {occurrences.map((citation, i) => (
+        <li key={i} className="text-xs italic text-slate-500">
+          &quot;{citation.text}&quot; (p. {citation.page})
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// An item that reveals where it occurs when clicked
+function InsightItem({ label, detail, occurrences }: { label: string; detail?: string; occurrences: Citation[] }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => setOpen(current => !current)}
+        className="text-left text-sm text-slate-200 hover:text-primary"
+      >
+        {label}
+        {detail && <span className="ml-2 text-xs text-slate-500">{detail}</span>}
+      </button>
+      {open && <Occurrences occurrences={occurrences} />}
+    </li>
+  );
+}
+
+// Key phrases, named entities and the glossary of one document, each linked to where it occurs
+export default function InsightsView({ insights }: InsightsViewProps) {
+  const entityTypes = (Object.keys(ENTITY_TYPE_LABELS) as EntityType[])
+    .filter(type => insights.entities.some(entity => entity.type === type));
+
+  const copyJson = () => {
+    navigator.clipboard?.writeText(JSON.stringify(insights, null, 2))
+      .catch(e => console.warn('Failed to copy insights:', e));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6 rounded-xl bg-slate-800/30 p-4"
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">{insights.source} · click an item to see where it occurs</p>
+        <button
+          type="button"
+          onClick={copyJson}
+          className="text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-3 py-1.5 rounded-lg transition-colors"
+        >
+          Copy JSON
+        </button>
+      </div>
+
+      <section>
+        <h2 className="mb-2 text-sm font-medium text-slate-300">Key phrases</h2>
+        {insights.keyPhrases.length === 0 ? (
+          <p className="text-sm text-slate-500">No recurring phrases found.</p>
+        ) : (
+          <ul className="space-y-1">
+            {insights.keyPhrases.map(phrase => (
+              <InsightItem
+                key={phrase.text}
+                label={phrase.text}
+                detail={`×${phrase.count}`}
+                occurrences={phrase.occurrences}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="mb-2 text-sm font-medium text-slate-300">Entities</h2>
+        {entityTypes.length === 0 ? (
+          <p className="text-sm text-slate-500">No people, organizations, dates or amounts found.</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {entityTypes.map(type => (
+              <div key={type}>
+                <p className="mb-1 text-xs text-slate-500">{ENTITY_TYPE_LABELS[type]}</p>
+                <ul className="space-y-1">
+                  {insights.entities.filter(entity => entity.type === type).map(entity => {
+                    const value = entityValue(entity);
+                    return (
+                      <InsightItem
+                        key={entity.text}
+                        label={entity.text}
+                        detail={`${value ? `${value} · ` : ''}×${entity.count}`}
+                        occurrences={entity.occurrences}
+                      />
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="mb-2 text-sm font-medium text-slate-300">Glossary</h2>
+        {insights.glossary.length === 0 ? (
+          <p className="text-sm text-slate-500">The document doesn&apos;t define any terms.</p>
+        ) : (
+          <dl className="space-y-3">
+            {insights.glossary.map(entry => (
+              <div key={entry.term}>
+                <dt className="text-sm font-medium text-slate-200">
+                  {entry.term}
+                  <span className="ml-2 text-xs font-normal text-slate-500">used ×{entry.count}</span>
+                </dt>
+                <dd className="text-sm text-slate-300">{entry.definition}</dd>
+                <dd className="text-xs italic text-slate-500">
+                  &quot;{entry.citation.text}&quot; (p. {entry.citation.page})
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </section>
+    </motion.div>
+  );
+}
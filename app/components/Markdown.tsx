@@ -0,0 +1,112 @@
+import { ReactNode } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownProps {
+  text: string;
+  renderMarker?: (marker: number, key: string) => ReactNode; // Citation markers; plain "[n]" when not given
+}
+
+const HEADING_CLASSES = ['text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm', 'text-sm'];
+
+function renderInline(nodes: InlineNode[], renderMarker: MarkdownProps['renderMarker'], prefix: string): ReactNode[] {
+  return nodes.map((node, i) => {
+    const key = `${prefix}.${i}`;
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'marker':
+        return renderMarker ? renderMarker(node.marker, key) : `[${node.marker}]`;
+      case 'strong':
+        return <strong key={key} className="font-semibold">{renderInline(node.children, renderMarker, key)}</strong>;
+      case 'emphasis':
+        return <em key={key}>{renderInline(node.children, renderMarker, key)}</em>;
+      case 'strikethrough':
+        return <del key={key}>{renderInline(node.children, renderMarker, key)}</del>;
+      case 'code':
+        return <code key={key} className="rounded bg-slate-900/60 px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={key} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline hover:opacity-80">
+            {renderInline(node.children, renderMarker, key)}
+          </a>
+        );
+      case 'break':
+        return <br key={key} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], renderMarker: MarkdownProps['renderMarker'], prefix = 'm'): ReactNode[] {
+  return blocks.map((block, i) => {
+    const key = `${prefix}.${i}`;
+    const inline = (nodes: InlineNode[], at = key) => renderInline(nodes, renderMarker, at);
+
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={key} className={`${HEADING_CLASSES[block.level - 1]} font-semibold`}>{inline(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={key}>{inline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => (
+          <li key={`${key}.${j}`}>
+            {/* Single-paragraph items are shown inline, like a tight list */}
+            {item.length === 1 && item[0].type === 'paragraph'
+              ? inline(item[0].children, `${key}.${j}`)
+              : renderBlocks(item, renderMarker, `${key}.${j}`)}
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={key} start={block.start} className="list-decimal space-y-1 pl-5">{items}</ol>
+          : <ul key={key} className="list-disc space-y-1 pl-5">{items}</ul>;
+      }
+      case 'code':
+        return (
+          <pre key={key} className="overflow-x-auto rounded-lg bg-slate-900/60 p-3 font-mono text-xs">
+            <code data-language={block.language}>{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="space-y-2 border-l-2 border-slate-600 pl-3 text-slate-400">
+            {renderBlocks(block.children, renderMarker, key)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={key} className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} className="border border-slate-700 px-2 py-1 font-semibold" style={{ textAlign: block.align[j] ?? 'left' }}>
+                      {inline(cell, `${key}.h${j}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, j) => (
+                      <td key={j} className="border border-slate-700 px-2 py-1" style={{ textAlign: block.align[j] ?? 'left' }}>
+                        {inline(cell, `${key}.${r}.${j}`)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={key} className="border-slate-700" />;
+    }
+  });
+}
+
+// Chat text rendered from Markdown as React elements; raw HTML is shown as text, never interpreted
+export default function Markdown({ text, renderMarker }: MarkdownProps) {
+  return <div className="space-y-3">{renderBlocks(parseMarkdown(text), renderMarker)}</div>;
+}
@@ -0,0 +1,124 @@
+import { motion } from 'framer-motion';
+import { ParagraphChange, RedlineDiff, SentenceChange } from '@/app/types/diff';
+import { describeRedline, renderRedlineHtml } from '@/lib/redlineExport';
+
+interface RedlineViewProps {
+  diff: RedlineDiff;
+}
+
+// Save text as a file in the browser
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const insertClass = 'bg-emerald-500/20 text-emerald-200 underline decoration-emerald-400/60';
+const deleteClass = 'bg-red-500/20 text-red-300 line-through decoration-red-400/60';
+
+function Sentences({ sentences }: { sentences: SentenceChange[] }) {
+  return (
+    <>
+      {sentences.map((sentence, i) => (
+        <span key={i}>
+          {i > 0 && ' '}
+          <span className={sentence.type === 'insert' ? insertClass : sentence.type === 'delete' ? deleteClass : ''}>
+            {sentence.text}
+          </span>
+        </span>
+      ))}
+    </>
+  );
+}
+
+function Paragraph({ change }: { change: ParagraphChange }) {
+  const border = {
+    'equal': 'border-transparent',
+    'insert': 'border-emerald-500',
+    'delete': 'border-red-500',
+    'change': 'border-amber-500',
+    'moved-from': 'border-red-500/60',
+    'moved-to': 'border-emerald-500/60'
+  }[change.type];
+
+  return (
+    <p
+      id={change.moveId ? `${change.type}-${change.moveId}` : undefined}
+      className={`border-l-2 pl-3 text-sm leading-relaxed text-slate-300 ${border}`}
+    >
+      {change.type === 'equal' && change.after}
+      {change.type === 'insert' && <span className={insertClass}>{change.after}</span>}
+      {change.type === 'delete' && <span className={deleteClass}>{change.before}</span>}
+      {change.type === 'change' && <Sentences sentences={change.sentences || []} />}
+      {change.type === 'moved-from' && (
+        <>
+          <span className={deleteClass}>{change.before}</span>
+          <a href={`#moved-to-${change.moveId}`} className="ml-2 text-xs text-primary hover:underline">
+            Moved ({change.moveId})
+          </a>
+        </>
+      )}
+      {change.type === 'moved-to' && (
+        <>
+          {change.sentences ? <Sentences sentences={change.sentences} /> : <span className={insertClass}>{change.after}</span>}
+          <a href={`#moved-from-${change.moveId}`} className="ml-2 text-xs text-primary hover:underline">
+            Moved here ({change.moveId})
+          </a>
+        </>
+      )}
+    </p>
+  );
+}
+
+// The redline of two document versions, with HTML and JSON export
+export default function RedlineView({ diff }: RedlineViewProps) {
+  const basename = `redline-${diff.after.name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-4"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-slate-200">
+            {diff.before.name} → {diff.after.name}
+          </p>
+          <p className="text-xs text-slate-500">{describeRedline(diff)}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => download(renderRedlineHtml(diff), `${basename}.html`, 'text/html')}
+            className="text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            Export HTML
+          </button>
+          <button
+            type="button"
+            onClick={() => download(JSON.stringify(diff, null, 2), `${basename}.json`, 'application/json')}
+            className="text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {diff.changes.length === 0 ? (
+        <p className="text-sm text-slate-500">Both versions are empty.</p>
+      ) : diff.changes.every(change => change.type === 'equal') ? (
+        <p className="text-sm text-slate-500">The versions are identical.</p>
+      ) : (
+        <div className="space-y-3 rounded-xl bg-slate-800/30 p-4">
+          {diff.changes.map((change, i) => (
+            <Paragraph key={i} change={change} />
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { MessageSquare, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { ChatSession } from '@/app/types/chat';
+import { filterSessions } from '@/lib/sessionStore';
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  disabled?: boolean; // Switching is held off while an answer or upload is in progress
+  onSelect: (session: ChatSession) => void;
+  onCreate: () => void;
+  onRename: (session: ChatSession, name: string) => void;
+  onDelete: (session: ChatSession) => void;
+}
+
+// Named chat sessions, most recently used first, with search, rename and delete
+export default function SessionSidebar({
+  sessions,
+  activeSessionId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete
+}: SessionSidebarProps) {
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const visible = filterSessions(sessions, search);
+
+  const finishRename = () => {
+    if (!editing) return;
+    const session = sessions.find(s => s.id === editing.id);
+    const name = editing.name.trim();
+    if (session && name && name !== session.name) onRename(session, name);
+    setEditing(null);
+  };
+
+  const confirmDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete "${session.name}"? Its messages and the documents uploaded to it will be deleted.`)) {
+      onDelete(session);
+    }
+  };
+
+  return (
+    <aside className="glass-card flex w-full shrink-0 flex-col gap-3 rounded-2xl border border-slate-700/50 p-4 backdrop-blur-sm lg:sticky lg:top-24 lg:max-h-[calc(100vh-7rem)] lg:w-64">
+      <button
+        onClick={onCreate}
+        disabled={disabled}
+        className="flex items-center justify-center gap-2 rounded-xl bg-primary px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-primary/80 disabled:opacity-50"
+      >
+        <Plus className="h-4 w-4" />
+        New chat
+      </button>
+
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-500" />
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search chats"
+          aria-label="Search chats"
+          className="w-full rounded-lg border border-slate-700/50 bg-slate-800/50 py-1.5 pl-8 pr-2 text-sm text-slate-200 placeholder-slate-500"
+        />
+      </div>
+
+      <ul className="-mx-1 flex-1 space-y-1 overflow-y-auto px-1">
+        {visible.length === 0 && (
+          <li className="px-2 py-1 text-xs text-slate-500">{search ? 'No chats match your search.' : 'No chats yet.'}</li>
+        )}
+        {visible.map(session => {
+          const active = session.id === activeSessionId;
+          return (
+            <li
+              key={session.id}
+              className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm ${
+                active ? 'bg-slate-700/60 text-white' : 'text-slate-300 hover:bg-slate-800/60'
+              }`}
+            >
+              <MessageSquare className="h-3.5 w-3.5 shrink-0 text-slate-500" />
+              {editing?.id === session.id ? (
+                <input
+                  autoFocus
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: session.id, name: e.target.value })}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  aria-label="Chat name"
+                  className="min-w-0 flex-1 rounded bg-slate-900/60 px-1 text-sm text-slate-100"
+                />
+              ) : (
+                <button
+                  onClick={() => !active && onSelect(session)}
+                  disabled={disabled && !active}
+                  className="min-w-0 flex-1 truncate text-left disabled:opacity-50"
+                  title={session.name}
+                >
+                  {session.name}
+                </button>
+              )}
+              <button
+                onClick={() => setEditing({ id: session.id, name: session.name })}
+                className="text-slate-500 opacity-0 hover:text-white group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Rename ${session.name}`}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => confirmDelete(session)}
+                disabled={disabled}
+                className="text-slate-500 opacity-0 hover:text-red-400 group-hover:opacity-100 focus:opacity-100 disabled:hidden"
+                aria-label={`Delete ${session.name}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
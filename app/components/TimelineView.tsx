@@ -0,0 +1,60 @@
+import { motion } from 'framer-motion';
+import { DatePrecision, DocumentDateSource, TimelineResult } from '@/app/types/timeline';
+
+interface TimelineViewProps {
+  timeline: TimelineResult;
+}
+
+const DOCUMENT_DATE_SOURCES: Record<DocumentDateSource, string> = {
+  request: 'as given',
+  text: 'from the document',
+  upload: 'the upload date'
+};
+
+// A normalized date at the precision the document gave: "14 Mar 2024", "Mar 2024" or "2024"
+function formatDate(date: string, precision: DatePrecision): string {
+  const options: Intl.DateTimeFormatOptions = precision === 'year'
+    ? { year: 'numeric' }
+    : precision === 'month'
+      ? { year: 'numeric', month: 'short' }
+      : { year: 'numeric', month: 'short', day: 'numeric' };
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+}
+
+// Dated events in order, each with the sentence it comes from
+export default function TimelineView({ timeline }: TimelineViewProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-4 rounded-xl bg-slate-800/30 p-4"
+    >
+      <p className="text-sm text-slate-400">
+        {timeline.source} · {timeline.events.length} dated {timeline.events.length === 1 ? 'event' : 'events'}
+        {timeline.documentDate && timeline.documentDateSource && (
+          <> · relative dates counted from {formatDate(timeline.documentDate, 'day')} ({DOCUMENT_DATE_SOURCES[timeline.documentDateSource]})</>
+        )}
+      </p>
+
+      {timeline.events.length === 0 ? (
+        <p className="text-sm text-slate-500">No dates found in this document.</p>
+      ) : (
+        <ol className="relative space-y-4 border-l border-slate-700/50 pl-4">
+          {timeline.events.map((event, i) => (
+            <li key={i} className="relative">
+              <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+              <p className="text-sm font-medium text-slate-200">
+                {formatDate(event.date, event.precision)}
+                {event.relative && (
+                  <span className="ml-2 text-xs font-normal text-slate-500">&quot;{event.expression}&quot;</span>
+                )}
+              </p>
+              <p className="text-sm text-slate-300">{event.sentence}</p>
+              <p className="text-xs text-slate-500">Source: {event.citation.source}, Page {event.citation.page}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </motion.div>
+  );
+}
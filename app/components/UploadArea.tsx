@@ -67,7 +67,7 @@ export default function UploadArea({ files, onFileUpload, onFileDrop, onFileRemo
               className="sr-only"
               multiple
               onChange={(e) => onFileUpload(e.target.files)}
-              accept=".pdf,.doc,.docx,.txt"
+              accept=".pdf,.docx,.txt"
             />
           </label>
           <p className="mt-3 text-sm text-slate-400">or drag and drop</p>
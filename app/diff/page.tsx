@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import RedlineView from '../components/RedlineView';
+import { DocumentSummary } from '../types/document';
+import { RedlineDiff } from '../types/diff';
+
+interface DiffPageProps {
+  searchParams: { before?: string; after?: string };
+}
+
+// Redline two stored documents, e.g. /diff?before=<id>&after=<id>
+export default function DiffPage({ searchParams }: DiffPageProps) {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [beforeId, setBeforeId] = useState(searchParams.before || '');
+  const [afterId, setAfterId] = useState(searchParams.after || '');
+  const [diff, setDiff] = useState<RedlineDiff | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/documents')
+      .then(response => response.json())
+      .then((data: { documents?: DocumentSummary[]; error?: string }) => {
+        if (data.error) throw new Error(data.error);
+        setDocuments(data.documents || []);
+      })
+      .catch(e => setError(`Failed to load documents: ${e.message}`));
+  }, []);
+
+  const runDiff = async (before: string, after: string) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/diff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ before: { documentId: before }, after: { documentId: after } })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+      setDiff(data);
+    } catch (e: any) {
+      console.error('Error comparing versions:', e);
+      setError(e.message || 'Failed to compare the versions');
+      setDiff(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Versions passed in the URL are compared straight away
+  useEffect(() => {
+    if (searchParams.before && searchParams.after) {
+      runDiff(searchParams.before, searchParams.after);
+    }
+  }, []);
+
+  const versionSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex flex-1 flex-col gap-1 text-sm text-slate-400">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-slate-200"
+      >
+        <option value="">Select a document</option>
+        {documents.map(document => (
+          <option key={document.id} value={document.id}>{document.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <main className="min-h-screen">
+      <div className="container mx-auto max-w-4xl px-4 py-12">
+        <header className="mb-8">
+          <a href="/" className="text-sm text-slate-400 hover:text-white transition-colors">← Back to chat</a>
+          <h1 className="mt-4 text-3xl font-bold text-white">Redline</h1>
+          <p className="mt-2 text-slate-400">
+            Compare two versions of a document paragraph by paragraph, with sentence-level edits and moved passages.
+          </p>
+        </header>
+
+        <div className="mb-6 flex flex-col gap-4 rounded-2xl border border-slate-700/50 p-4 md:flex-row md:items-end">
+          {versionSelect('Original', beforeId, setBeforeId)}
+          {versionSelect('Revised', afterId, setAfterId)}
+          <button
+            onClick={() => runDiff(beforeId, afterId)}
+            disabled={isProcessing || !beforeId || !afterId || beforeId === afterId}
+            className="bg-primary hover:bg-primary/80 text-white font-medium px-6 py-2 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Comparing...' : 'Compare'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        {diff && <RedlineView diff={diff} />}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ExtractionView from '../components/ExtractionView';
+import { DocumentSummary } from '../types/document';
+import { ExtractionResult, FieldType, SchemaField } from '../types/extract';
+
+interface ExtractPageProps {
+  searchParams: { document?: string };
+}
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  money: 'Money',
+  date: 'Date',
+  email: 'Email',
+  boolean: 'Yes/No'
+};
+
+// Starting points for common documents
+const SCHEMA_PRESETS: Record<string, SchemaField[]> = {
+  Invoice: [
+    { name: 'invoiceNumber', type: 'text' },
+    { name: 'invoiceDate', type: 'date' },
+    { name: 'dueDate', type: 'date' },
+    { name: 'total', type: 'money', description: 'total amount due' },
+    { name: 'billTo', type: 'text', description: 'customer being billed' },
+    { name: 'email', type: 'email' }
+  ],
+  Contract: [
+    { name: 'parties', type: 'text', description: 'agreement between', multiple: true },
+    { name: 'effectiveDate', type: 'date' },
+    { name: 'term', type: 'text', description: 'duration of the agreement' },
+    { name: 'fees', type: 'money' }
+  ]
+};
+
+// Extract typed fields from a stored document, e.g. /extract?document=<id>
+export default function ExtractPage({ searchParams }: ExtractPageProps) {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [documentId, setDocumentId] = useState(searchParams.document || '');
+  const [fields, setFields] = useState<SchemaField[]>(SCHEMA_PRESETS.Invoice);
+  const [result, setResult] = useState<ExtractionResult | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/documents')
+      .then(response => response.json())
+      .then((data: { documents?: DocumentSummary[]; error?: string }) => {
+        if (data.error) throw new Error(data.error);
+        setDocuments(data.documents || []);
+      })
+      .catch(e => setError(`Failed to load documents: ${e.message}`));
+  }, []);
+
+  const updateField = (index: number, changes: Partial<SchemaField>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field));
+  };
+
+  const extract = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/extract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ documentId, schema: fields.filter(field => field.name.trim()) })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+      setResult(data);
+    } catch (e: any) {
+      console.error('Error extracting data:', e);
+      setError(e.message || 'Failed to extract data');
+      setResult(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const inputClass = 'bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-slate-200';
+
+  return (
+    <main className="min-h-screen">
+      <div className="container mx-auto max-w-4xl px-4 py-12">
+        <header className="mb-8">
+          <a href="/" className="text-sm text-slate-400 hover:text-white transition-colors">← Back to chat</a>
+          <h1 className="mt-4 text-3xl font-bold text-white">Extract data</h1>
+          <p className="mt-2 text-slate-400">
+            Describe the fields you need and get them back as JSON, each with the text it was read from.
+          </p>
+        </header>
+
+        <div className="mb-6 space-y-4 rounded-2xl border border-slate-700/50 p-4">
+          <label className="flex flex-col gap-1 text-sm text-slate-400">
+            Document
+            <select value={documentId} onChange={(e) => setDocumentId(e.target.value)} className={inputClass}>
+              <option value="">Select a document</option>
+              {documents.map(document => (
+                <option key={document.id} value={document.id}>{document.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-slate-400">Fields</p>
+              <div className="flex gap-3 text-xs">
+                {Object.keys(SCHEMA_PRESETS).map(preset => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setFields(SCHEMA_PRESETS[preset])}
+                    className="text-slate-400 hover:text-primary"
+                  >
+                    {preset} preset
+                  </button>
+                ))}
+              </div>
+            </div>
+            {fields.map((field, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2">
+                <input
+                  value={field.name}
+                  onChange={(e) => updateField(i, { name: e.target.value })}
+                  placeholder="Field name"
+                  className={`${inputClass} w-40`}
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(i, { type: e.target.value as FieldType })}
+                  className={inputClass}
+                >
+                  {(Object.keys(FIELD_TYPE_LABELS) as FieldType[]).map(type => (
+                    <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <input
+                  value={field.description || ''}
+                  onChange={(e) => updateField(i, { description: e.target.value })}
+                  placeholder="Description (optional)"
+                  className={`${inputClass} min-w-0 flex-1`}
+                />
+                <label className="flex items-center gap-1 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={!!field.multiple}
+                    onChange={(e) => updateField(i, { multiple: e.target.checked })}
+                  />
+                  List
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setFields(prev => prev.filter((_, j) => j !== i))}
+                  className="text-xs text-slate-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setFields(prev => [...prev, { name: '', type: 'text' }])}
+              className="text-sm text-slate-400 hover:text-primary"
+            >
+              + Add field
+            </button>
+          </div>
+
+          <button
+            onClick={extract}
+            disabled={isProcessing || !documentId || !fields.some(field => field.name.trim())}
+            className="bg-primary hover:bg-primary/80 text-white font-medium px-6 py-2 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Extracting...' : 'Extract'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        {result && <ExtractionView result={result} />}
+      </div>
+    </main>
+  );
+}
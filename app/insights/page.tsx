@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import InsightsView from '../components/InsightsView';
+import { DocumentSummary } from '../types/document';
+import { DocumentInsights } from '../types/insights';
+
+interface InsightsPageProps {
+  searchParams: { document?: string };
+}
+
+// Key phrases, entities and defined terms of a stored document, e.g. /insights?document=<id>
+export default function InsightsPage({ searchParams }: InsightsPageProps) {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [documentId, setDocumentId] = useState(searchParams.document || '');
+  const [insights, setInsights] = useState<DocumentInsights | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/documents')
+      .then(response => response.json())
+      .then((data: { documents?: DocumentSummary[]; error?: string }) => {
+        if (data.error) throw new Error(data.error);
+        setDocuments(data.documents || []);
+      })
+      .catch(e => setError(`Failed to load documents: ${e.message}`));
+  }, []);
+
+  // Analyze the selected document as soon as it is picked
+  useEffect(() => {
+    if (!documentId) {
+      setInsights(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsProcessing(true);
+    setError(null);
+    fetch('/api/insights', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ documentId }),
+      signal: controller.signal
+    })
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || `Server error: ${response.status}`);
+        }
+        setInsights(data);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('Error analyzing document:', e);
+        setError(e.message || 'Failed to analyze the document');
+        setInsights(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsProcessing(false);
+      });
+
+    return () => controller.abort();
+  }, [documentId]);
+
+  return (
+    <main className="min-h-screen">
+      <div className="container mx-auto max-w-4xl px-4 py-12">
+        <header className="mb-8">
+          <a href="/" className="text-sm text-slate-400 hover:text-white transition-colors">← Back to chat</a>
+          <h1 className="mt-4 text-3xl font-bold text-white">Document insights</h1>
+          <p className="mt-2 text-slate-400">
+            Key phrases, people, organizations, dates, amounts and defined terms, each linked to where it occurs.
+          </p>
+        </header>
+
+        <div className="mb-6 rounded-2xl border border-slate-700/50 p-4">
+          <label className="flex flex-col gap-1 text-sm text-slate-400">
+            Document
+            <select
+              value={documentId}
+              onChange={(e) => setDocumentId(e.target.value)}
+              className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-slate-200"
+            >
+              <option value="">Select a document</option>
+              {documents.map(document => (
+                <option key={document.id} value={document.id}>{document.name}</option>
+              ))}
+            </select>
+          </label>
+          {isProcessing && <p className="mt-3 text-sm text-slate-400">Analyzing...</p>}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        {insights && !isProcessing && <InsightsView insights={insights} />}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import TimelineView from '../components/TimelineView';
+import { DocumentSummary } from '../types/document';
+import { TimelineResult } from '../types/timeline';
+
+interface TimelinePageProps {
+  searchParams: { document?: string };
+}
+
+// Dated events of a stored document in order, e.g. /timeline?document=<id>
+export default function TimelinePage({ searchParams }: TimelinePageProps) {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [documentId, setDocumentId] = useState(searchParams.document || '');
+  const [documentDate, setDocumentDate] = useState('');
+  const [timeline, setTimeline] = useState<TimelineResult | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/documents')
+      .then(response => response.json())
+      .then((data: { documents?: DocumentSummary[]; error?: string }) => {
+        if (data.error) throw new Error(data.error);
+        setDocuments(data.documents || []);
+      })
+      .catch(e => setError(`Failed to load documents: ${e.message}`));
+  }, []);
+
+  // Rebuild the timeline when the document or the date relative expressions count from changes
+  useEffect(() => {
+    if (!documentId) {
+      setTimeline(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsProcessing(true);
+    setError(null);
+    fetch('/api/timeline', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ documentId, documentDate: documentDate || undefined }),
+      signal: controller.signal
+    })
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || `Server error: ${response.status}`);
+        }
+        setTimeline(data);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('Error building timeline:', e);
+        setError(e.message || 'Failed to build the timeline');
+        setTimeline(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsProcessing(false);
+      });
+
+    return () => controller.abort();
+  }, [documentId, documentDate]);
+
+  const inputClass = 'bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-slate-200';
+
+  return (
+    <main className="min-h-screen">
+      <div className="container mx-auto max-w-4xl px-4 py-12">
+        <header className="mb-8">
+          <a href="/" className="text-sm text-slate-400 hover:text-white transition-colors">← Back to chat</a>
+          <h1 className="mt-4 text-3xl font-bold text-white">Timeline</h1>
+          <p className="mt-2 text-slate-400">
+            Every date a document mentions, in order, with the sentence it comes from.
+          </p>
+        </header>
+
+        <div className="mb-6 grid gap-4 rounded-2xl border border-slate-700/50 p-4 sm:grid-cols-2">
+          <label className="flex flex-col gap-1 text-sm text-slate-400">
+            Document
+            <select value={documentId} onChange={(e) => setDocumentId(e.target.value)} className={inputClass}>
+              <option value="">Select a document</option>
+              {documents.map(document => (
+                <option key={document.id} value={document.id}>{document.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-400">
+            Document date (for &quot;yesterday&quot;, &quot;next month&quot;, ...)
+            <input
+              type="date"
+              value={documentDate}
+              onChange={(e) => setDocumentDate(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          {isProcessing && <p className="text-sm text-slate-400">Building timeline...</p>}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        {timeline && !isProcessing && <TimelineView timeline={timeline} />}
+      </div>
+    </main>
+  );
+}
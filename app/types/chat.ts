@@ -1,11 +1,61 @@
+import { ComparisonResult } from './compare';
+
+// Retrieval methods that can surface a passage ('conversation' reuses earlier citations,
+// 'focus' ranks the passages around a selected one)
+export type RetrieverName = 'lexical' | 'semantic' | 'conversation' | 'focus';
+
 export interface Citation {
+  marker?: number; // n of the [n] marker in the answer that refers to this citation
   text: string;
   page: number;
+  pageEnd?: number; // Last page when the cited text spans several pages
+  source: string;
+  documentId?: string; // Stored document the text comes from
+  start?: number; // Character offsets of the text in the document's extracted text
+  end?: number;
+  score?: number; // Retrieval score of the cited passage
+  retrievers?: RetrieverName[]; // Retrievers that found the cited passage
+}
+
+// What to do with a passage selected in a document preview
+export type FocusAction = 'ask' | 'explain' | 'related';
+
+// Whether retrieval only searches around a selected passage or ranks its surroundings higher
+export type FocusMode = 'restrict' | 'boost';
+
+// A passage selected in a document, which a question is scoped to
+export interface FocusRegion {
+  text: string;
   source: string;
+  documentId?: string; // Stored document the selection was made in
+  page?: number;
+  start?: number; // Character offsets of the selection in the document's extracted text, when known
+  end?: number;
+  action?: FocusAction;
+  mode?: FocusMode; // Defaults to 'restrict' for explanations and 'boost' otherwise
 }
 
 export interface Message {
+  id?: string; // Set on messages found again after being added: streamed answers and the questions they answer
   text: string;
   isAi: boolean;
   citations?: Citation[];
-} 
\ No newline at end of file
+  query?: string; // Standalone form of a follow-up question, as it was searched
+  confidence?: number; // How well the documents support the answer (0-1)
+  abstained?: boolean; // The documents didn't appear to contain the answer
+  comparison?: ComparisonResult; // Set when the answer compares documents side by side
+  suggestions?: string[]; // Starter questions offered for a newly uploaded document
+  focus?: FocusRegion; // Passage a question was asked about
+} 
+// Progress stages reported while an answer is streamed
+export type ChatStage = 'extracting' | 'retrieving' | 'generating';
+
+// A named conversation with its own documents, saved in the browser
+export interface ChatSession {
+  id: string;
+  name: string;
+  messages: Message[];
+  documentIds: string[]; // Stored documents the conversation is about
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
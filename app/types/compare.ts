@@ -0,0 +1,26 @@
+import { Citation } from './chat';
+
+// The passages of one document that address the question
+export interface ComparedDocument {
+  documentId?: string;
+  source: string;
+  passages: Citation[]; // Markers are numbered across all documents
+  confidence?: number; // How well the passages address the question (0-1); below the threshold there are none
+}
+
+// A statement about how the documents relate, with the markers of its supporting passages
+export interface ComparisonPoint {
+  text: string;
+  markers: number[];
+}
+
+export interface ComparisonResult {
+  question: string;
+  documents: ComparedDocument[];
+  agreements: ComparisonPoint[];
+  differences: ComparisonPoint[];
+  method: 'llm' | 'extractive';
+  summary: string; // Agreements and differences as text with [n] markers
+  confidence?: number; // The best document's confidence (0-1)
+  abstained?: boolean; // No document addresses the question well enough to compare
+}
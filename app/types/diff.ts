@@ -0,0 +1,42 @@
+// A sentence of a changed paragraph: kept, added or removed
+export interface SentenceChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * A paragraph of the redline. Changed paragraphs (and moved ones that were also
+ * edited) carry a sentence-level diff; moved paragraphs appear twice, as
+ * 'moved-from' where they were and 'moved-to' where they are, sharing a moveId.
+ */
+export interface ParagraphChange {
+  type: 'equal' | 'insert' | 'delete' | 'change' | 'moved-from' | 'moved-to';
+  before?: string;
+  after?: string;
+  beforeIndex?: number; // Paragraph positions in each version, from 0
+  afterIndex?: number;
+  sentences?: SentenceChange[];
+  moveId?: number;
+}
+
+export interface RedlineStats {
+  unchanged: number;
+  inserted: number;
+  deleted: number;
+  changed: number;
+  moved: number;
+}
+
+// A version of the document being compared
+export interface RedlineVersion {
+  name: string;
+  documentId?: string;
+  paragraphs: number;
+}
+
+export interface RedlineDiff {
+  before: RedlineVersion;
+  after: RedlineVersion;
+  changes: ParagraphChange[];
+  stats: RedlineStats;
+}
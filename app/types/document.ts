@@ -0,0 +1,34 @@
+// Character range covered by one page of a document's extracted text
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+// A file as sent by the browser: base64 data plus optional client-side extracted text
+export interface UploadedFileData {
+  name: string;
+  type: string;
+  data: string; // Base64 data
+  size?: number;
+  text?: string; // Optional pre-extracted text from client-side processing
+  pageSpans?: PageSpan[]; // Page boundaries of the pre-extracted text
+}
+
+// A document held by the document store, without its text
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  characters: number; // Length of the extracted text
+  pages: number;
+  chunkCount: number;
+  createdAt: string; // ISO timestamp
+}
+
+// A stored document with its extracted text
+export interface StoredDocument extends DocumentSummary {
+  text: string;
+  pageSpans: PageSpan[];
+}
@@ -0,0 +1,40 @@
+import { Citation } from './chat';
+
+// Kinds of value a schema field can hold; each has its own parser
+export type FieldType = 'text' | 'number' | 'money' | 'date' | 'email' | 'boolean';
+
+// A field to extract, e.g. { name: 'invoiceNumber', type: 'text' }
+export interface SchemaField {
+  name: string;
+  type: FieldType;
+  description?: string; // Extra words to search for, and a hint for the LLM
+  multiple?: boolean; // Collect every value (e.g. parties) instead of the best one
+}
+
+export interface MoneyValue {
+  amount: number;
+  currency?: string; // ISO code, when the document gives one
+}
+
+// Dates are ISO strings (YYYY-MM-DD)
+export type FieldValue = string | number | boolean | MoneyValue;
+
+// How a field's value was found
+export type ExtractionMethod = 'pattern' | 'heuristic' | 'llm';
+
+export interface ExtractedField {
+  name: string;
+  type: FieldType;
+  value: FieldValue | FieldValue[] | null; // An array for `multiple` fields; null when not found
+  citations: Citation[]; // The text each value was read from, in value order
+  confidence: number; // 0-1
+  method?: ExtractionMethod;
+}
+
+export interface ExtractionResult {
+  documentId?: string;
+  source: string;
+  fields: ExtractedField[];
+  data: Record<string, FieldValue | FieldValue[] | null>; // The values alone, keyed by field name
+  method: 'llm' | 'extractive';
+}
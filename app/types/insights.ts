@@ -0,0 +1,36 @@
+import { Citation } from './chat';
+import { MoneyValue } from './extract';
+
+// Kinds of named entity the rule-based recognizers find
+export type EntityType = 'person' | 'organization' | 'date' | 'amount';
+
+export interface KeyPhrase {
+  text: string;
+  score: number; // RAKE score weighted by TF-IDF across the document's paragraphs
+  count: number;
+  occurrences: Citation[]; // The sentences it appears in, first few only
+}
+
+export interface NamedEntity {
+  text: string; // As first written in the document
+  type: EntityType;
+  value?: string | MoneyValue; // YYYY-MM-DD for dates, the parsed amount for amounts
+  count: number;
+  occurrences: Citation[];
+}
+
+// A term the document defines, e.g. "Confidential Information" means ...
+export interface DefinedTerm {
+  term: string;
+  definition: string;
+  citation: Citation; // The sentence that defines it
+  count: number; // How often the term is used, including its definition
+}
+
+export interface DocumentInsights {
+  documentId?: string;
+  source: string;
+  keyPhrases: KeyPhrase[];
+  entities: NamedEntity[];
+  glossary: DefinedTerm[];
+}
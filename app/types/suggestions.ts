@@ -0,0 +1,18 @@
+import { Citation } from './chat';
+
+// What a suggested question was built from
+export type SuggestionBasis = 'heading' | 'term' | 'entity' | 'llm' | 'general';
+
+export interface SuggestedQuestion {
+  text: string;
+  basis: SuggestionBasis;
+  subject?: string; // The heading, key term or entity the question asks about
+  citation?: Citation; // Where the subject first appears
+}
+
+export interface SuggestionResult {
+  documentId?: string;
+  source: string;
+  questions: SuggestedQuestion[];
+  method: 'llm' | 'extractive';
+}
@@ -0,0 +1,21 @@
+import { Citation } from './chat';
+
+// How long a summary should be: one sentence, one paragraph, or a paragraph per section
+export type SummaryLength = 'one-liner' | 'abstract' | 'sections';
+
+export interface SummarySection {
+  title: string;
+  text: string; // Contains [n] markers matching the section's citations
+  page: number;
+  pageEnd?: number;
+  citations: Citation[];
+}
+
+export interface DocumentSummaryResult {
+  documentId?: string;
+  source: string;
+  length: SummaryLength;
+  method: 'llm' | 'extractive';
+  summary: string; // All sections joined, under their titles when summarizing by section
+  sections: SummarySection[];
+}
@@ -0,0 +1,24 @@
+import { Citation } from './chat';
+
+// How much of a normalized date the text actually gave
+export type DatePrecision = 'day' | 'month' | 'year';
+
+// Where the date that relative expressions count from came from
+export type DocumentDateSource = 'request' | 'text' | 'upload';
+
+export interface TimelineEvent {
+  date: string; // YYYY-MM-DD; the first day of the month or year for coarser dates
+  precision: DatePrecision;
+  expression: string; // The date as written, e.g. "March 3, 2024" or "two weeks ago"
+  relative: boolean; // Resolved against the document date
+  sentence: string; // The sentence the date appears in
+  citation: Citation;
+}
+
+export interface TimelineResult {
+  documentId?: string;
+  source: string;
+  documentDate?: string; // YYYY-MM-DD, when one was found or given
+  documentDateSource?: DocumentDateSource;
+  events: TimelineEvent[]; // In chronological order
+}
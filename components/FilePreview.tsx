@@ -1,12 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { File } from 'lucide-react';
-import PdfPreview from './PdfPreview';
+import PdfViewer from './PdfViewer';
+import SelectionMenu, { SelectedText } from './SelectionMenu';
+import { Citation, FocusAction } from '../app/types/chat';
+import { findQuote } from '../lib/citations';
 
 interface FilePreviewProps {
-  file: File;
+  file?: File; // Only available for files picked in this session
+  documentId?: string; // Stored document whose extracted text citations point into
+  highlight?: Citation; // Cited passage to scroll to and highlight
+  onSelection?: (action: FocusAction, selection: SelectedText) => void; // Ask about text selected in the preview
 }
 
-export default function FilePreview({ file }: FilePreviewProps) {
+export default function FilePreview({ file, documentId, highlight, onSelection }: FilePreviewProps) {
   // Function to get file icon based on file type
   const getFileIcon = () => {
     return <File className="h-5 w-5 text-primary" />;
@@ -14,13 +20,22 @@ export default function FilePreview({ file }: FilePreviewProps) {
 
   // Determine file preview based on type
   const renderPreview = () => {
-    // For PDF files, use our PDF.js preview
-    if (file.type === 'application/pdf') {
-      return <PdfPreview file={file} />;
+    // For PDF files, use our PDF.js viewer
+    if (file?.type === 'application/pdf') {
+      return <PdfViewer file={file} highlight={highlight} />;
+    }
+
+    // Text and DOCX files (and PDFs from an earlier session) show the stored extracted text
+    if (documentId) {
+      return (
+        <div className="p-4 border rounded-lg bg-slate-800/30 text-slate-300 text-sm font-mono max-h-48 overflow-auto whitespace-pre-wrap">
+          <StoredTextPreview documentId={documentId} highlight={highlight} />
+        </div>
+      );
     }
 
     // For text files, render simple text preview
-    if (file.type.includes('text/')) {
+    if (file?.type.includes('text/')) {
       return (
         <div className="p-4 border rounded-lg bg-slate-800/30 text-slate-300 text-sm font-mono max-h-48 overflow-auto">
           <TextPreview file={file} />
@@ -28,6 +43,8 @@ export default function FilePreview({ file }: FilePreviewProps) {
       );
     }
 
+    if (!file) return null;
+
     // Default preview (file info)
     return (
       <div className="flex items-center space-x-3 p-4 border rounded-lg bg-slate-800/30">
@@ -44,7 +61,7 @@ export default function FilePreview({ file }: FilePreviewProps) {
 
   return (
     <div className="file-preview">
-      {renderPreview()}
+      {onSelection ? <SelectionMenu onAction={onSelection}>{renderPreview()}</SelectionMenu> : renderPreview()}
     </div>
   );
 }
@@ -55,18 +72,65 @@ function TextPreview({ file }: { file: File }) {
 
   useEffect(() => {
     const reader = new FileReader();
-    
+
     reader.onload = (e) => {
       const content = e.target?.result as string;
       setText(content || 'No text content found');
     };
-    
+
     reader.onerror = () => {
       setText('Error loading text content');
     };
-    
+
     reader.readAsText(file);
   }, [file]);
 
   return <div>{text}</div>;
-} 
\ No newline at end of file
+}
+
+// Where a citation's quote is in a document's extracted text: its own offsets when they still match
+function citedRange(text: string, citation: Citation): { start: number; end: number } | null {
+  const { start, end } = citation;
+  if (start !== undefined && end !== undefined && findQuote(text.slice(start, end), citation.text)) {
+    return { start, end };
+  }
+  return findQuote(text, citation.text, start);
+}
+
+// The text a stored document was indexed with, so citation offsets line up with it
+function StoredTextPreview({ documentId, highlight }: { documentId: string; highlight?: Citation }) {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    fetch(`/api/documents/${documentId}`)
+      .then(response => response.json())
+      .then((data: { text?: string; error?: string }) => {
+        if (data.error) throw new Error(data.error);
+        setText(data.text || 'No text content found');
+      })
+      .catch(e => setError(`Error loading text content: ${e.message}`));
+  }, [documentId]);
+
+  const range = text && highlight ? citedRange(text, highlight) : null;
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [range?.start, range?.end, highlight]);
+
+  if (error) return <div className="text-red-300">{error}</div>;
+  if (text === null) return <div>Loading text content...</div>;
+  // Selections are measured from the start of the text, so they map onto document offsets
+  if (!range) return <div data-document-text>{text}</div>;
+
+  return (
+    <div data-document-text>
+      {text.slice(0, range.start)}
+      <mark ref={markRef} className="rounded-sm bg-yellow-400/40 text-slate-100">
+        {text.slice(range.start, range.end)}
+      </mark>
+      {text.slice(range.end)}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy, renderTextLayer } from 'pdfjs-dist';
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// A page's text items joined with spaces, and where each item starts in the joined text
+export interface PageText {
+  content: TextContent;
+  items: TextItem[]; // The content's items that carry text, which the text layer's divs follow
+  text: string;
+  starts: number[];
+}
+
+// A span of a page's joined text to highlight; the selected one is scrolled to
+export interface HighlightRange {
+  start: number;
+  end: number;
+  selected?: boolean;
+}
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  size: { width: number; height: number }; // Expected page size at scale 1, until the page itself is loaded
+  root: HTMLElement | null; // Scrolling container; pages render when they come near its viewport
+  getPageText: (pageNumber: number) => Promise<PageText>;
+  highlights: HighlightRange[];
+  focusKey?: number; // Changes whenever the selected highlight should be scrolled into view
+}
+
+/**
+ * Wrap the highlighted parts of each text item in spans. Text divs match the
+ * page's text items one to one, so offsets in the joined text map straight
+ * onto them. Returns the first selected span.
+ */
+function applyHighlights(pageText: PageText, textDivs: HTMLElement[], ranges: HighlightRange[]): HTMLElement | null {
+  let selected: HTMLElement | null = null;
+  pageText.items.forEach((item, i) => {
+    const div = textDivs[i];
+    if (!div) return;
+    const itemStart = pageText.starts[i];
+    const covering = ranges
+      .filter(range => range.start < itemStart + item.str.length && range.end > itemStart)
+      .sort((a, b) => a.start - b.start);
+    if (covering.length === 0) {
+      if (div.childElementCount > 0) div.textContent = item.str;
+      return;
+    }
+
+    const nodes: (string | HTMLElement)[] = [];
+    let position = 0;
+    for (const range of covering) {
+      const from = Math.max(range.start - itemStart, position);
+      const to = Math.min(range.end - itemStart, item.str.length);
+      if (from >= to) continue;
+      if (from > position) nodes.push(item.str.slice(position, from));
+      const mark = document.createElement('span');
+      mark.className = range.selected ? 'highlight selected' : 'highlight';
+      mark.textContent = item.str.slice(from, to);
+      nodes.push(mark);
+      if (range.selected && !selected) selected = mark;
+      position = to;
+    }
+    if (position < item.str.length) nodes.push(item.str.slice(position));
+    div.replaceChildren(...nodes);
+  });
+  return selected;
+}
+
+// One page of the viewer: a canvas with a selectable text layer, rendered only while near the viewport
+export default function PdfPage({ pdf, pageNumber, scale, size, root, getPageText, highlights, focusKey }: PdfPageProps) {
+  const [near, setNear] = useState(false);
+  const [rendered, setRendered] = useState<{ pageText: PageText; textDivs: HTMLElement[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageSize, setPageSize] = useState(size);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const scrolledFocusRef = useRef<number | undefined>(undefined);
+
+  // Render pages within a screen's height of the viewport; far-away pages drop their canvas
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !root) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => setNear(entry.isIntersecting),
+      { root, rootMargin: '100% 0px' }
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [root]);
+
+  useEffect(() => {
+    if (!near) {
+      setRendered(null);
+      return;
+    }
+
+    let cancelled = false;
+    let renderTask: { promise: Promise<unknown>; cancel: () => void } | null = null;
+    let textLayerTask: { promise: Promise<unknown>; cancel: () => void } | null = null;
+
+    const render = async () => {
+      const canvas = canvasRef.current;
+      const textLayer = textLayerRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !textLayer || !context) return;
+
+      try {
+        setError(null);
+        const page = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale });
+        setPageSize({ width: viewport.width / scale, height: viewport.height / scale });
+        const pixelRatio = window.devicePixelRatio || 1;
+
+        // Draw at device resolution so text stays sharp when zoomed
+        canvas.width = Math.floor(viewport.width * pixelRatio);
+        canvas.height = Math.floor(viewport.height * pixelRatio);
+        canvas.style.width = `${viewport.width}px`;
+        canvas.style.height = `${viewport.height}px`;
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: pixelRatio !== 1 ? [pixelRatio, 0, 0, pixelRatio, 0, 0] : undefined
+        });
+        await renderTask.promise;
+        if (cancelled) return;
+
+        const pageText = await getPageText(pageNumber);
+        if (cancelled) return;
+        textLayer.replaceChildren();
+        textLayer.style.width = `${viewport.width}px`;
+        textLayer.style.height = `${viewport.height}px`;
+        const textDivs: HTMLElement[] = [];
+        textLayerTask = renderTextLayer({ textContent: pageText.content, container: textLayer, viewport, textDivs });
+        await textLayerTask.promise;
+        if (!cancelled) setRendered({ pageText, textDivs });
+      } catch (err) {
+        if (cancelled || (err instanceof Error && err.name === 'RenderingCancelledException')) return;
+        console.error(`Error rendering PDF page ${pageNumber}:`, err);
+        setError(`Failed to render page ${pageNumber}`);
+      }
+    };
+
+    render();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayerTask?.cancel();
+      setRendered(null);
+    };
+  }, [near, pdf, pageNumber, scale, getPageText]);
+
+  // Highlights are re-applied on the rendered text layer whenever they change
+  useEffect(() => {
+    if (!rendered) return;
+    const selected = applyHighlights(rendered.pageText, rendered.textDivs, highlights);
+    if (selected && focusKey !== undefined && scrolledFocusRef.current !== focusKey) {
+      scrolledFocusRef.current = focusKey;
+      selected.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [rendered, highlights, focusKey]);
+
+  return (
+    <div
+      ref={containerRef}
+      data-page={pageNumber}
+      className="relative mx-auto bg-white shadow-md"
+      style={{ width: pageSize.width * scale, height: pageSize.height * scale }}
+    >
+      {near ? (
+        <>
+          <canvas ref={canvasRef} className="block" />
+          <div ref={textLayerRef} className="textLayer" />
+        </>
+      ) : (
+        <div className="flex h-full items-center justify-center text-xs text-slate-400">Page {pageNumber}</div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-red-500/20 text-sm text-red-200">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,531 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { ChevronDown, ChevronUp, PanelLeft, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import PdfPage, { HighlightRange, PageText } from './PdfPage';
+import { Citation } from '../app/types/chat';
+import { findQuote } from '../lib/citations';
+import { loadPdfForPreview } from '../lib/pdfUtils';
+
+type ZoomMode = 'fit-width' | 'fit-page' | number;
+
+interface PdfViewerProps {
+  file: File;
+  highlight?: Citation; // Cited passage to show: its page is opened and the quoted span highlighted
+}
+
+interface SearchHit {
+  page: number;
+  start: number;
+  end: number;
+}
+
+// Zoom levels the toolbar steps through, where 1 is the page's printed size
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+// PDF sizes are in points; at 100% a point is drawn as 96/72 CSS pixels, like a printed page
+const CSS_UNITS = 96 / 72;
+// Space around pages inside the scroll container
+const PAGE_PADDING = 32;
+const THUMBNAIL_WIDTH = 96;
+const NO_HIGHLIGHTS: HighlightRange[] = [];
+
+// Every case-insensitive occurrence of a query in a page's text
+function findHits(page: number, pageText: PageText, query: string): SearchHit[] {
+  const text = pageText.text.toLowerCase();
+  const needle = query.toLowerCase();
+  const hits: SearchHit[] = [];
+  for (let start = text.indexOf(needle); start !== -1; start = text.indexOf(needle, start + needle.length)) {
+    hits.push({ page, start, end: start + needle.length });
+  }
+  return hits;
+}
+
+export default function PdfViewer({ file, highlight }: PdfViewerProps) {
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [baseSize, setBaseSize] = useState({ width: 612, height: 792 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [zoom, setZoom] = useState<ZoomMode>('fit-width');
+  const [scrollElement, setScrollElement] = useState<HTMLDivElement | null>(null);
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number } | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [hitIndex, setHitIndex] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [citedRange, setCitedRange] = useState<SearchHit | null>(null);
+  const [focusKey, setFocusKey] = useState(0);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const pageTextCache = useRef(new Map<number, Promise<PageText>>());
+  const currentPageRef = useRef(1);
+
+  const totalPages = pdfDocument?.numPages ?? 0;
+
+  // Load the PDF; the loaded document is destroyed when the file changes or the viewer unmounts
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    const loadPdf = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        console.log(`Attempting to load PDF: ${file.name} (${file.size} bytes)`);
+        const doc = await loadPdfForPreview(file);
+        if (cancelled) {
+          doc.destroy().catch(console.error);
+          return;
+        }
+        loaded = doc;
+        const viewport = (await doc.getPage(1)).getViewport({ scale: 1 });
+        if (cancelled) return;
+        console.log('PDF document loaded successfully');
+        pageTextCache.current = new Map();
+        pageRefs.current = [];
+        setBaseSize({ width: viewport.width, height: viewport.height });
+        setPdfDocument(doc);
+        setCurrentPage(1);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading PDF:', err);
+        setError(`Failed to load PDF: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPdf();
+
+    return () => {
+      cancelled = true;
+      setPdfDocument(null);
+      loaded?.destroy().catch(console.error);
+    };
+  }, [file, loadAttempt]);
+
+  // Fit modes follow the size of the scroll container
+  useEffect(() => {
+    if (!scrollElement) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(scrollElement);
+    return () => observer.disconnect();
+  }, [scrollElement]);
+
+  const scale = useMemo(() => {
+    if (typeof zoom === 'number') return zoom * CSS_UNITS;
+    if (!viewportSize) return CSS_UNITS;
+    const fitWidth = (viewportSize.width - PAGE_PADDING) / baseSize.width;
+    const fitPage = Math.min(fitWidth, (viewportSize.height - PAGE_PADDING) / baseSize.height);
+    return Math.max(zoom === 'fit-width' ? fitWidth : fitPage, 0.1);
+  }, [zoom, viewportSize, baseSize]);
+
+  // Text of a page with item offsets, fetched once and shared by the text layer, search and citations
+  const getPageText = useCallback((pageNumber: number): Promise<PageText> => {
+    if (!pdfDocument) return Promise.reject(new Error('No PDF loaded'));
+    let pageText = pageTextCache.current.get(pageNumber);
+    if (!pageText) {
+      pageText = pdfDocument.getPage(pageNumber)
+        .then(page => page.getTextContent())
+        .then(content => {
+          const items = content.items.filter((item): item is TextItem => 'str' in item);
+          let text = '';
+          const starts = items.map(item => {
+            const start = text.length;
+            text += `${item.str} `;
+            return start;
+          });
+          return { content, items, text, starts };
+        });
+      pageTextCache.current.set(pageNumber, pageText);
+    }
+    return pageText;
+  }, [pdfDocument]);
+
+  const scrollToPage = useCallback((pageNumber: number) => {
+    const page = pageRefs.current[pageNumber - 1];
+    // Remembered right away, so a zoom change before the scroll event keeps this page in view
+    currentPageRef.current = pageNumber;
+    if (scrollElement && page) {
+      scrollElement.scrollTop = page.offsetTop - PAGE_PADDING / 2;
+    }
+  }, [scrollElement]);
+
+  useEffect(() => {
+    currentPageRef.current = currentPage;
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  // Keep the page being read in view when the zoom changes
+  useEffect(() => {
+    scrollToPage(currentPageRef.current);
+  }, [scale, scrollToPage]);
+
+  // The current page is the last one whose top has scrolled past a third of the view
+  const handleScroll = () => {
+    if (!scrollElement) return;
+    const line = scrollElement.scrollTop + scrollElement.clientHeight / 3;
+    let page = 1;
+    pageRefs.current.forEach((element, i) => {
+      if (element && element.offsetTop <= line) page = i + 1;
+    });
+    if (page !== currentPageRef.current) setCurrentPage(page);
+  };
+
+  // Find the cited passage on its page and bring it into view
+  useEffect(() => {
+    if (!pdfDocument || !highlight) {
+      setCitedRange(null);
+      return;
+    }
+
+    let cancelled = false;
+    const page = Math.min(Math.max(highlight.page, 1), pdfDocument.numPages);
+    scrollToPage(page);
+    getPageText(page)
+      .then(pageText => {
+        if (cancelled) return;
+        const range = findQuote(pageText.text, highlight.text);
+        setCitedRange(range ? { page, ...range } : null);
+        setFocusKey(key => key + 1);
+      })
+      .catch(err => console.error('Error finding the cited passage:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, highlight, getPageText, scrollToPage]);
+
+  // Search every page once typing pauses
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!pdfDocument || !trimmed) {
+      setHits([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const found: SearchHit[] = [];
+      try {
+        for (let page = 1; page <= pdfDocument.numPages; page++) {
+          const pageText = await getPageText(page);
+          if (cancelled) return;
+          found.push(...findHits(page, pageText, trimmed));
+        }
+        setHits(found);
+        setHitIndex(0);
+        setFocusKey(key => key + 1);
+        if (found.length > 0) scrollToPage(found[0].page);
+      } catch (err) {
+        if (!cancelled) console.error('Error searching PDF:', err);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pdfDocument, query, getPageText, scrollToPage]);
+
+  const goToHit = (index: number) => {
+    if (hits.length === 0) return;
+    const next = (index + hits.length) % hits.length;
+    setHitIndex(next);
+    setFocusKey(key => key + 1);
+    scrollToPage(hits[next].page);
+  };
+
+  // Search hits per page, with the current hit selected; without a search the cited passage is
+  const highlightsByPage = useMemo(() => {
+    const byPage = new Map<number, HighlightRange[]>();
+    const add = (range: SearchHit, selected: boolean) => {
+      const ranges = byPage.get(range.page) || [];
+      ranges.push({ start: range.start, end: range.end, selected });
+      byPage.set(range.page, ranges);
+    };
+    if (citedRange) add(citedRange, hits.length === 0);
+    hits.forEach((hit, i) => add(hit, i === hitIndex));
+    return byPage;
+  }, [hits, hitIndex, citedRange]);
+
+  const effectiveZoom = scale / CSS_UNITS;
+
+  const zoomIn = () => {
+    setZoom(ZOOM_STEPS.find(step => step > effectiveZoom + 0.01) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1]);
+  };
+
+  const zoomOut = () => {
+    setZoom([...ZOOM_STEPS].reverse().find(step => step < effectiveZoom - 0.01) ?? ZOOM_STEPS[0]);
+  };
+
+  const handlePageSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = parseInt(pageInput, 10);
+    if (page >= 1 && page <= totalPages) {
+      scrollToPage(page);
+    } else {
+      setPageInput(String(currentPage));
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToHit(e.shiftKey ? hitIndex - 1 : hitIndex + 1);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+        <span className="text-slate-300">Loading PDF...</span>
+      </div>
+    );
+  }
+
+  if (error || !pdfDocument) {
+    return (
+      <div className="p-4 bg-red-500/20 border border-red-500 rounded-lg text-red-200 space-y-2">
+        <p>{error || 'Failed to load PDF'}</p>
+        <button
+          onClick={() => setLoadAttempt(attempt => attempt + 1)}
+          className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-white text-sm"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const toolbarButton = 'p-1.5 rounded text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-50';
+  const toolbarInput = 'bg-slate-900/60 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200';
+  const pageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
+
+  return (
+    <div className="pdf-viewer overflow-hidden border rounded-lg bg-slate-800/50 border-slate-700">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 border-b border-slate-700 p-2">
+        <button
+          onClick={() => setShowThumbnails(show => !show)}
+          className={`${toolbarButton} ${showThumbnails ? 'bg-slate-700 text-white' : ''}`}
+          title="Toggle page thumbnails"
+        >
+          <PanelLeft className="h-4 w-4" />
+        </button>
+
+        <form onSubmit={handlePageSubmit} className="flex items-center gap-1 text-sm text-slate-400">
+          <input
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            onBlur={handlePageSubmit}
+            inputMode="numeric"
+            aria-label="Page number"
+            className={`${toolbarInput} w-12 text-center`}
+          />
+          <span>/ {totalPages}</span>
+        </form>
+
+        <div className="flex items-center gap-1">
+          <button onClick={zoomOut} disabled={effectiveZoom <= ZOOM_STEPS[0]} className={toolbarButton} title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <select
+            value={String(zoom)}
+            onChange={(e) => {
+              const value = e.target.value;
+              setZoom(value === 'fit-width' || value === 'fit-page' ? value : Number(value));
+            }}
+            aria-label="Zoom"
+            className={toolbarInput}
+          >
+            <option value="fit-width">Fit width</option>
+            <option value="fit-page">Fit page</option>
+            {ZOOM_STEPS.map(step => (
+              <option key={step} value={String(step)}>{step * 100}%</option>
+            ))}
+          </select>
+          <button
+            onClick={zoomIn}
+            disabled={effectiveZoom >= ZOOM_STEPS[ZOOM_STEPS.length - 1]}
+            className={toolbarButton}
+            title="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* Find in document */}
+        <div className="ml-auto flex items-center gap-1">
+          <div className="relative">
+            <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              placeholder="Find in document"
+              aria-label="Find in document"
+              className={`${toolbarInput} w-44 pl-7`}
+            />
+          </div>
+          <span className="min-w-[4.5rem] text-center text-xs text-slate-400">
+            {searching
+              ? 'Searching...'
+              : query.trim()
+                ? hits.length > 0 ? `${hitIndex + 1} of ${hits.length}` : 'No matches'
+                : ''}
+          </span>
+          <button onClick={() => goToHit(hitIndex - 1)} disabled={hits.length === 0} className={toolbarButton} title="Previous match">
+            <ChevronUp className="h-4 w-4" />
+          </button>
+          <button onClick={() => goToHit(hitIndex + 1)} disabled={hits.length === 0} className={toolbarButton} title="Next match">
+            <ChevronDown className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex h-[70vh]">
+        {showThumbnails && (
+          <PdfThumbnails
+            pdf={pdfDocument}
+            baseSize={baseSize}
+            currentPage={currentPage}
+            onSelect={scrollToPage}
+          />
+        )}
+
+        {/* Pages */}
+        <div ref={setScrollElement} onScroll={handleScroll} className="relative flex-1 overflow-auto">
+          <div className="flex w-fit min-w-full flex-col gap-4 p-4">
+            {pageNumbers.map(pageNumber => (
+              <div key={pageNumber} ref={element => { pageRefs.current[pageNumber - 1] = element; }}>
+                <PdfPage
+                  pdf={pdfDocument}
+                  pageNumber={pageNumber}
+                  scale={scale}
+                  size={baseSize}
+                  root={scrollElement}
+                  getPageText={getPageText}
+                  highlights={highlightsByPage.get(pageNumber) || NO_HIGHLIGHTS}
+                  focusKey={focusKey}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface PdfThumbnailsProps {
+  pdf: PDFDocumentProxy;
+  baseSize: { width: number; height: number };
+  currentPage: number;
+  onSelect: (pageNumber: number) => void;
+}
+
+// Sidebar of small page images; each is drawn once it scrolls into the sidebar's view
+function PdfThumbnails({ pdf, baseSize, currentPage, onSelect }: PdfThumbnailsProps) {
+  const [sidebar, setSidebar] = useState<HTMLDivElement | null>(null);
+  const pageNumbers = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+  return (
+    <div ref={setSidebar} className="w-32 shrink-0 overflow-y-auto border-r border-slate-700 p-2 space-y-3">
+      {pageNumbers.map(pageNumber => (
+        <button
+          key={pageNumber}
+          onClick={() => onSelect(pageNumber)}
+          className="block w-full text-center"
+          title={`Page ${pageNumber}`}
+        >
+          <PdfThumbnail
+            pdf={pdf}
+            pageNumber={pageNumber}
+            height={THUMBNAIL_WIDTH * baseSize.height / baseSize.width}
+            root={sidebar}
+            active={pageNumber === currentPage}
+          />
+          <span className={`text-xs ${pageNumber === currentPage ? 'text-white' : 'text-slate-500'}`}>{pageNumber}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface PdfThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  height: number; // Expected height, until the page is drawn
+  root: HTMLElement | null;
+  active: boolean;
+}
+
+function PdfThumbnail({ pdf, pageNumber, height, root, active }: PdfThumbnailProps) {
+  const [visible, setVisible] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !root) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { root, rootMargin: '50% 0px' });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [root]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    let renderTask: { promise: Promise<unknown>; cancel: () => void } | null = null;
+
+    const render = async () => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+      try {
+        const page = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        renderTask = page.render({ canvasContext: context, viewport });
+        await renderTask.promise;
+      } catch (err) {
+        if (!cancelled && !(err instanceof Error && err.name === 'RenderingCancelledException')) {
+          console.error(`Error rendering thumbnail for page ${pageNumber}:`, err);
+        }
+      }
+    };
+
+    render();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [visible, pdf, pageNumber]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`mx-auto mb-1 bg-white ${active ? 'ring-2 ring-primary' : 'ring-1 ring-slate-700'}`}
+      style={{ width: THUMBNAIL_WIDTH, minHeight: height }}
+    >
+      <canvas ref={canvasRef} className="block" />
+    </div>
+  );
+}
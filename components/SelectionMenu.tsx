@@ -0,0 +1,113 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { FocusAction } from '../app/types/chat';
+
+// Text selected in a preview, with where it is when the preview knows
+export interface SelectedText {
+  text: string;
+  page?: number; // PDF page the selection starts on
+  start?: number; // Offsets in the document's extracted text, for previews that show it whole
+  end?: number;
+}
+
+interface SelectionMenuProps {
+  children: ReactNode;
+  onAction: (action: FocusAction, selection: SelectedText) => void;
+}
+
+const ACTIONS: { action: FocusAction; label: string }[] = [
+  { action: 'ask', label: 'Ask about this' },
+  { action: 'explain', label: 'Explain' },
+  { action: 'related', label: 'Find related passages' }
+];
+
+/**
+ * Describe a selected range: its page comes from the nearest `data-page`
+ * element (PDF pages), and offsets are counted from the start of the nearest
+ * `data-document-text` element, which holds a document's extracted text.
+ */
+function describeSelection(range: Range): SelectedText {
+  const raw = range.toString();
+  const text = raw.trim();
+  const node = range.startContainer;
+  const element = node instanceof Element ? node : node.parentElement;
+  const page = Number(element?.closest('[data-page]')?.getAttribute('data-page')) || undefined;
+  const textRoot = element?.closest('[data-document-text]');
+  if (!textRoot) return { text, page };
+
+  const before = document.createRange();
+  before.setStart(textRoot, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length + (raw.length - raw.trimStart().length);
+  return { text, page, start, end: start + text.length };
+}
+
+// Wraps a preview and offers actions on text selected inside it
+export default function SelectionMenu({ children, onAction }: SelectionMenuProps) {
+  const [menu, setMenu] = useState<{ selection: SelectedText; top: number; left: number } | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const updateSelection = () => {
+    const selection = window.getSelection();
+    const wrapper = wrapperRef.current;
+    if (!wrapper || !selection || selection.isCollapsed || selection.rangeCount === 0) {
+      setMenu(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    if (!wrapper.contains(range.commonAncestorContainer) || !range.toString().trim()) {
+      setMenu(null);
+      return;
+    }
+
+    // Shown under the selection, kept within the preview's width
+    const rect = range.getBoundingClientRect();
+    const bounds = wrapper.getBoundingClientRect();
+    setMenu({
+      selection: describeSelection(range),
+      top: rect.bottom - bounds.top + 6,
+      left: Math.max(0, Math.min(rect.left - bounds.left, bounds.width - 320))
+    });
+  };
+
+  // Hide the menu once the selection is cleared, wherever that happens
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setMenu(null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  const runAction = (action: FocusAction) => {
+    if (!menu) return;
+    window.getSelection()?.removeAllRanges();
+    setMenu(null);
+    onAction(action, menu.selection);
+  };
+
+  return (
+    <div ref={wrapperRef} className="relative" onMouseUp={updateSelection} onKeyUp={updateSelection}>
+      {children}
+      {menu && (
+        <div
+          className="absolute z-10 flex gap-1 rounded-lg border border-slate-700 bg-slate-900/95 p-1 shadow-lg"
+          style={{ top: menu.top, left: menu.left }}
+          // Keep the selection while a button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {ACTIONS.map(({ action, label }) => (
+            <button
+              key={action}
+              type="button"
+              onClick={() => runAction(action)}
+              className="whitespace-nowrap rounded px-2 py-1 text-xs text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+// Common English words that carry no retrieval signal
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'about', 'any',
+  'all', 'also', 'tell', 'please', 'some'
+]);
+
+// Words that give a question its form rather than its topic: "how long", "how many", "what happens"
+export const QUESTION_WORDS = new Set([
+  'does', 'do', 'is', 'are', 'was', 'were', 'many', 'much', 'long', 'often', 'far', 'explain', 'describe',
+  'mean', 'give', 'list', 'more', 'else', 'show', 'happen', 'need', 'get', 'take'
+]);
+
+// Light normalization so simple plurals match their singular form
+function normalizeTerm(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return term.slice(0, -3) + 'y';
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') && !term.endsWith('us')) return term.slice(0, -1);
+  return term;
+}
+
+// Split text into lowercase index terms, dropping stop words
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [];
+  return words
+    .map(word => word.replace(/['’]s$/, ''))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(normalizeTerm);
+}
+
+/**
+ * Rough stem of an index term, so that inflected forms match: "submitted",
+ * "submitting" and "submit" all give "submit". Only used to compare terms,
+ * never shown.
+ */
+export function stem(term: string): string {
+  const stripped = term.replace(/(?:ing|ed|ly|ment|e)$/, '');
+  const base = stripped.length >= 3 ? stripped : term;
+  // "submitt" -> "submit", "travell" -> "travel"
+  return /([^aeiou])\1$/.test(base) ? base.slice(0, -1) : base;
+}
+
+export interface Bm25Options {
+  k1: number; // Term frequency saturation
+  b: number;  // Length normalization strength
+}
+
+export interface Bm25Result {
+  index: number; // Position of the passage in the indexed list
+  score: number;
+}
+
+/**
+ * Inverted index over a list of passages, scored with Okapi BM25
+ */
+export class Bm25Index {
+  private readonly postings = new Map<string, Map<number, number>>();
+  private readonly lengths: number[] = [];
+  private totalLength = 0;
+  private readonly options: Bm25Options;
+
+  constructor(passages: string[] = [], options: Partial<Bm25Options> = {}) {
+    this.options = { k1: 1.2, b: 0.75, ...options };
+    passages.forEach(passage => this.add(passage));
+  }
+
+  get size(): number {
+    return this.lengths.length;
+  }
+
+  // Index a passage; returns its position
+  add(passage: string): number {
+    const index = this.lengths.length;
+    const terms = tokenize(passage);
+
+    for (const term of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(index, (posting.get(index) || 0) + 1);
+    }
+
+    this.lengths.push(terms.length);
+    this.totalLength += terms.length;
+    return index;
+  }
+
+  // Inverse document frequency of a term (0 for unknown terms)
+  idf(term: string): number {
+    return this.inverseFrequency(this.postings.get(term)?.size || 0);
+  }
+
+  // Inverse document frequency of every form of a term, counting passages with any term of the same stem
+  stemIdf(term: string): number {
+    const target = stem(term);
+    const passages = new Set<number>();
+    this.postings.forEach((posting, indexed) => {
+      if (stem(indexed) === target) posting.forEach((_, index) => passages.add(index));
+    });
+    return this.inverseFrequency(passages.size);
+  }
+
+  private inverseFrequency(documentFrequency: number): number {
+    if (documentFrequency === 0) return 0;
+    const count = this.lengths.length;
+    return Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  // Score every passage containing at least one query term, best first
+  search(query: string | string[], limit?: number): Bm25Result[] {
+    const terms = Array.from(new Set(typeof query === 'string' ? tokenize(query) : query));
+    const { k1, b } = this.options;
+    const averageLength = this.totalLength / Math.max(1, this.lengths.length);
+    const scores = new Map<number, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = this.idf(term);
+
+      posting.forEach((frequency, index) => {
+        const lengthRatio = this.lengths[index] / Math.max(1, averageLength);
+        const termScore = idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthRatio));
+        scores.set(index, (scores.get(index) || 0) + termScore);
+      });
+    }
+
+    const results = Array.from(scores, ([index, score]) => ({ index, score }))
+      .sort((a, b) => b.score - a.score);
+
+    return limit === undefined ? results : results.slice(0, limit);
+  }
+}
@@ -0,0 +1,312 @@
+import { Document } from '@langchain/core/documents';
+import { PageSpan } from '@/app/types/document';
+import { STOP_WORDS } from './bm25';
+import { findPageRange } from './pages';
+
+// Chunk size and overlap, in characters
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 1000,
+  chunkOverlap: 200
+};
+
+// Metadata added to every chunk, on top of the parent document's metadata
+export interface ChunkMetadata {
+  source: string;
+  chunkIndex: number;
+  start: number; // Offset of the chunk in the parent document's text
+  end: number;
+  page: number;
+  pageEnd?: number;
+  heading?: string; // Nearest heading at or before the chunk start
+  pageSpans?: PageSpan[]; // Inherited from the parent document
+  documentId?: string; // Inherited from stored documents
+}
+
+// A span of the source text that chunks are assembled from
+interface Segment {
+  start: number;
+  end: number;
+  isHeading: boolean;
+  startsParagraph: boolean;
+}
+
+// Markdown-style headings (from DOCX conversion) and numbered section titles
+const HEADING_REGEX = /^(#{1,6}\s+\S.*|(\d+(\.\d+)*\.?|[IVX]+\.)\s+[A-Z][^.!?]{0,80})$/;
+
+// Whether a trimmed line is a heading
+export function isHeadingLine(line: string): boolean {
+  return HEADING_REGEX.test(line) && line.length <= 120;
+}
+
+// Headings, or short standalone lines in capitals or title case such as "CODE OF CONDUCT"
+export function isTitleLine(line: string): boolean {
+  if (isHeadingLine(line)) return true;
+  const words = line.split(/\s+/);
+  return line.length <= 60 &&
+    words.length <= 8 &&
+    !/[.!?,;:]$/.test(line) &&
+    /\p{L}{3}/u.test(line) &&
+    words.every(word => /^[\p{Lu}\p{N}]/u.test(word) || STOP_WORDS.has(word.toLowerCase()));
+}
+
+// A sentence with its offsets in the text it was split from
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Terminal punctuation, with any closing quotes or brackets
+const SENTENCE_END = /[.!?]+["'”’)\]]*/g;
+const SENTENCE_OR_LINE_END = /[.!?]+["'”’)\]]*|\n/g;
+
+// Abbreviations whose period doesn't end a sentence ("Dr. Smith", "e.g.")
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'cf', 'al', 'approx', 'dept', 'est',
+  'e.g', 'i.e', 'a.m', 'p.m'
+]);
+
+// Abbreviations that only count as such before a number ("No. 5", "Jan. 2024")
+const NUMBER_ABBREVIATIONS = new Set([
+  'no', 'nos', 'art', 'sec', 'para', 'fig', 'vol', 'pp', 'p',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+]);
+
+// Company suffixes, which end a sentence only before a capitalized word ("Globex Ltd. (the Supplier)")
+const COMPANY_SUFFIXES = new Set(['inc', 'ltd', 'co', 'corp', 'llc', 'plc', 'gmbh']);
+
+// Whether the terminal punctuation at [index, end) of a text ends a sentence
+function endsSentence(text: string, index: number, end: number): boolean {
+  const after = text.slice(end, end + 12);
+  // Inside a number, URL or name, or before more of the clause: "$12,500.00", "example.com", "Ltd.,"
+  if (/^[\p{Ll}\p{N},;:]/u.test(after)) return false;
+  if (/[!?]/.test(text.slice(index, end))) return true;
+
+  // "Dr.", "e.g.", initials such as "J." and "U.S."
+  const word = text.slice(Math.max(0, index - 20), index).match(/(?:^|[^\p{L}.])((?:\p{L}\.)*\p{L}+)$/u)?.[1].toLowerCase();
+  if (word && (word.length === 1 || ABBREVIATIONS.has(word))) return false;
+  if (word && NUMBER_ABBREVIATIONS.has(word) && /^\s*\d/.test(after)) return false;
+  if (word && COMPANY_SUFFIXES.has(word) && !/^\s+\p{Lu}/u.test(after)) return false;
+
+  // A sentence doesn't go on in lower case
+  return !/^\s+\p{Ll}/u.test(after);
+}
+
+/**
+ * Split text into trimmed sentences with their offsets. A sentence ends at
+ * terminal punctuation, but not at a period inside a number ("$12,500.00"),
+ * after an abbreviation ("Globex Ltd.") or before a lower-case word. Heading
+ * lines ("1. Vacation") are sentences of their own, while other lines may wrap
+ * mid-sentence; with `lineBreaks`, every line ends a sentence.
+ */
+export function splitSentences(text: string, { lineBreaks = false } = {}): SentenceSpan[] {
+  const sentences: SentenceSpan[] = [];
+  const add = (start: number, end: number) => {
+    const raw = text.slice(start, end);
+    const sentence = raw.trim();
+    if (!sentence) return;
+    const sentenceStart = start + raw.length - raw.trimStart().length;
+    sentences.push({ text: sentence, start: sentenceStart, end: sentenceStart + sentence.length });
+  };
+
+  // Split the text between headings at sentence ends
+  const boundary = new RegExp(lineBreaks ? SENTENCE_OR_LINE_END : SENTENCE_END);
+  const addRun = (start: number, end: number) => {
+    let sentenceStart = start;
+    let match;
+    boundary.lastIndex = start;
+    while ((match = boundary.exec(text)) !== null && match.index < end) {
+      const matchEnd = Math.min(end, match.index + match[0].length);
+      if (match[0] === '\n' || endsSentence(text, match.index, matchEnd)) {
+        add(sentenceStart, matchEnd);
+        sentenceStart = matchEnd;
+      }
+    }
+    add(sentenceStart, end);
+  };
+
+  let runStart = 0;
+  let lineStart = 0;
+  while (lineStart <= text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    if (isHeadingLine(text.slice(lineStart, lineEnd).trim())) {
+      addRun(runStart, lineStart);
+      add(lineStart, lineEnd);
+      runStart = lineEnd;
+    }
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+  addRun(runStart, text.length);
+
+  return sentences;
+}
+
+// Merge and clamp user-supplied chunking options
+export function resolveChunkingOptions(options?: Partial<ChunkingOptions>): ChunkingOptions {
+  const chunkSize = Math.min(8000, Math.max(200, Math.round(options?.chunkSize ?? DEFAULT_CHUNKING_OPTIONS.chunkSize)));
+  const chunkOverlap = Math.min(
+    Math.floor(chunkSize / 2),
+    Math.max(0, Math.round(options?.chunkOverlap ?? DEFAULT_CHUNKING_OPTIONS.chunkOverlap))
+  );
+  return { chunkSize, chunkOverlap };
+}
+
+// Break text into headings, sentences and (for very long sentences) word runs
+function segmentText(text: string, chunkSize: number): Segment[] {
+  const segments: Segment[] = [];
+
+  // Paragraphs are runs of non-blank lines; headings stand on their own
+  const paragraphs: { start: number; end: number; isHeading: boolean }[] = [];
+  const lineRegex = /[^\n]*(\n|$)/g;
+  let paragraph: { start: number; end: number } | null = null;
+  let match;
+
+  while ((match = lineRegex.exec(text)) !== null && match[0].length > 0) {
+    const lineStart = match.index;
+    const line = match[0].replace(/\n$/, '');
+    const trimmed = line.trim();
+    const lineEnd = lineStart + line.length;
+
+    if (!trimmed || isHeadingLine(trimmed)) {
+      if (paragraph) paragraphs.push({ ...paragraph, isHeading: false });
+      paragraph = null;
+      if (trimmed) paragraphs.push({ start: lineStart, end: lineEnd, isHeading: true });
+    } else if (paragraph) {
+      paragraph.end = lineEnd;
+    } else {
+      paragraph = { start: lineStart, end: lineEnd };
+    }
+  }
+  if (paragraph) paragraphs.push({ ...paragraph, isHeading: false });
+
+  for (const para of paragraphs) {
+    const paragraphSegments = sentenceSegments(text, para.start, para.end, para.isHeading, chunkSize);
+    if (paragraphSegments.length > 0) {
+      paragraphSegments[0].startsParagraph = true;
+      segments.push(...paragraphSegments);
+    }
+  }
+
+  return segments;
+}
+
+// Split a paragraph into sentence segments with absolute offsets
+function sentenceSegments(text: string, start: number, end: number, isHeading: boolean, chunkSize: number): Segment[] {
+  if (isHeading) {
+    return [{ start, end, isHeading: true, startsParagraph: true }];
+  }
+
+  const segments: Segment[] = [];
+
+  for (const sentence of splitSentences(text.slice(start, end))) {
+    const sentenceStart = start + sentence.start;
+    const sentenceEnd = start + sentence.end;
+
+    if (sentenceEnd - sentenceStart <= chunkSize) {
+      segments.push({ start: sentenceStart, end: sentenceEnd, isHeading: false, startsParagraph: false });
+    } else {
+      segments.push(...splitWords(text, sentenceStart, sentenceEnd, chunkSize));
+    }
+  }
+
+  return segments;
+}
+
+// Last resort for run-on text: cut at whitespace so pieces fit the chunk size
+function splitWords(text: string, start: number, end: number, chunkSize: number): Segment[] {
+  const segments: Segment[] = [];
+  let pieceStart = start;
+
+  while (pieceStart < end) {
+    let pieceEnd = Math.min(end, pieceStart + chunkSize);
+    if (pieceEnd < end) {
+      const lastSpace = text.lastIndexOf(' ', pieceEnd);
+      if (lastSpace > pieceStart) pieceEnd = lastSpace;
+    }
+    segments.push({ start: pieceStart, end: pieceEnd, isHeading: false, startsParagraph: false });
+    pieceStart = pieceEnd;
+    while (pieceStart < end && /\s/.test(text[pieceStart])) pieceStart++;
+  }
+
+  return segments;
+}
+
+/**
+ * Split a document into overlapping chunks that respect heading, paragraph and
+ * sentence boundaries. Each chunk keeps the parent's metadata plus its own
+ * character offsets and page range, so citations can point back at the source.
+ */
+export function chunkDocument(document: Document, options?: Partial<ChunkingOptions>): Document<ChunkMetadata>[] {
+  const { chunkSize, chunkOverlap } = resolveChunkingOptions(options);
+  const text = document.pageContent;
+  const segments = segmentText(text, chunkSize);
+  const chunks: Document<ChunkMetadata>[] = [];
+
+  const headingBefore = (offset: number) => {
+    const heading = segments.filter(s => s.isHeading && s.start <= offset).pop();
+    return heading ? text.slice(heading.start, heading.end).replace(/^#+\s*/, '').trim() : undefined;
+  };
+
+  let first = 0;
+  while (first < segments.length) {
+    // Greedily add segments until the chunk is full or a new section starts
+    let last = first;
+    while (
+      last + 1 < segments.length &&
+      !segments[last + 1].isHeading &&
+      segments[last + 1].end - segments[first].start <= chunkSize
+    ) {
+      last++;
+    }
+
+    // When the chunk is cut short, prefer ending at a paragraph break in its second half
+    if (last + 1 < segments.length && !segments[last + 1].isHeading && !segments[last + 1].startsParagraph) {
+      for (let i = last; i > first; i--) {
+        if (segments[i].startsParagraph && segments[i - 1].end - segments[first].start >= chunkSize / 2) {
+          last = i - 1;
+          break;
+        }
+      }
+    }
+
+    const start = segments[first].start;
+    const end = segments[last].end;
+    chunks.push(new Document<ChunkMetadata>({
+      pageContent: text.slice(start, end),
+      metadata: {
+        ...document.metadata,
+        source: document.metadata.source || 'Document',
+        chunkIndex: chunks.length,
+        start,
+        end,
+        ...findPageRange(document.metadata.pageSpans, start, end),
+        heading: headingBefore(start)
+      }
+    }));
+
+    if (last + 1 >= segments.length) break;
+
+    // Start the next chunk far enough back to overlap, but never before a section break
+    let next = last + 1;
+    if (!segments[next].isHeading) {
+      while (next - 1 > first && end - segments[next - 1].start <= chunkOverlap && !segments[next - 1].isHeading) {
+        next--;
+      }
+    }
+    first = next;
+  }
+
+  return chunks;
+}
+
+// Chunk a set of documents
+export function chunkDocuments(documents: Document[], options?: Partial<ChunkingOptions>): Document<ChunkMetadata>[] {
+  return documents.flatMap(document => chunkDocument(document, options));
+}
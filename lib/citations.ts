@@ -0,0 +1,150 @@
+import { Citation } from '@/app/types/chat';
+import { PageSpan } from '@/app/types/document';
+import { findPageRange } from './pages';
+
+// A piece of answer text, or a [n] marker pointing at citation n
+export type AnswerPart =
+  | { type: 'text'; text: string }
+  | { type: 'marker'; marker: number };
+
+// [1], [2][3], and the "[1, 2]" / "[1-3]" forms models sometimes produce
+const MARKER_GROUP_REGEX = /\[(\d+(?:\s*[,–-]\s*\d+)*)\]/g;
+
+// Expand "1, 3-4" into [1, 3, 4]
+function expandMarkerGroup(group: string): number[] {
+  return group.split(/\s*,\s*/).flatMap(part => {
+    const [from, to] = part.split(/\s*[–-]\s*/).map(Number);
+    if (to === undefined) return [from];
+    if (to < from || to - from > 20) return [from, to];
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  });
+}
+
+/**
+ * Rewrite markers as separate [n] tokens and drop those that don't match a
+ * citation (models sometimes cite passages they were never given)
+ */
+export function normalizeCitationMarkers(text: string, citationCount: number): string {
+  return text
+    .replace(MARKER_GROUP_REGEX, (_, group: string) => {
+      const markers = Array.from(new Set(expandMarkerGroup(group)))
+        .filter(marker => marker >= 1 && marker <= citationCount);
+      return markers.map(marker => `[${marker}]`).join('');
+    })
+    .replace(/[ \t]+([.,;:!?])/g, '$1');
+}
+
+// Markers used in an answer, in order of first appearance
+export function citationMarkersIn(text: string): number[] {
+  const markers: number[] = [];
+  for (const match of Array.from(text.matchAll(MARKER_GROUP_REGEX))) {
+    for (const marker of expandMarkerGroup(match[1])) {
+      if (!markers.includes(marker)) markers.push(marker);
+    }
+  }
+  return markers;
+}
+
+// Split answer text into plain text and markers, for rendering
+export function splitCitationMarkers(text: string): AnswerPart[] {
+  const parts: AnswerPart[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(MARKER_GROUP_REGEX))) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ type: 'text', text: text.slice(last, index) });
+    expandMarkerGroup(match[1]).forEach(marker => parts.push({ type: 'marker', marker }));
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts;
+}
+
+// A document's text with what is needed to cite a span of it
+export interface CitableText {
+  documentId?: string;
+  source: string;
+  text: string;
+  pageSpans?: PageSpan[];
+}
+
+// The sentence around an offset (or, for headings, the whole line) as a citation
+export function sentenceCitation(document: CitableText, offset: number, wholeLine = false): Citation {
+  const { text } = document;
+  const boundary = wholeLine ? /\n/ : /[.!?\n]/;
+  let start = offset;
+  while (start > 0 && !boundary.test(text[start - 1])) start--;
+  let end = offset;
+  while (end < text.length && !boundary.test(text[end])) end++;
+  if (end < text.length && text[end] !== '\n') end++;
+
+  const quoted = text.slice(start, end);
+  const trimmedStart = start + quoted.length - quoted.trimStart().length;
+  const trimmedEnd = start + quoted.trimEnd().length;
+  return {
+    text: text.slice(trimmedStart, trimmedEnd),
+    source: document.source,
+    documentId: document.documentId,
+    start: trimmedStart,
+    end: trimmedEnd,
+    ...findPageRange(document.pageSpans, trimmedStart, trimmedEnd)
+  };
+}
+
+// Text with whitespace removed and lowercased, and where each remaining character came from
+function compact(text: string): { text: string; offsets: number[] } {
+  let compacted = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) continue;
+    compacted += text[i].toLowerCase();
+    offsets.push(i);
+  }
+  return { text: compacted, offsets };
+}
+
+/**
+ * Where a quoted passage appears in a text, ignoring whitespace and case
+ * (PDF text layers and extractors split words differently). The occurrence
+ * closest to `near` wins. When the whole quote isn't found, its opening and
+ * closing words are looked for separately, so a passage that differs in the
+ * middle is still found.
+ */
+export function findQuote(text: string, quote: string, near = 0): { start: number; end: number } | null {
+  const haystack = compact(text);
+  const needle = compact(quote).text;
+  if (!needle) return null;
+
+  const occurrences = (part: string, from = 0, to = haystack.text.length) => {
+    const found: number[] = [];
+    let index = haystack.text.indexOf(part, from);
+    while (index !== -1 && index <= to) {
+      found.push(index);
+      index = haystack.text.indexOf(part, index + 1);
+    }
+    return found;
+  };
+  const closest = (positions: number[]) =>
+    positions.reduce((best, position) =>
+      Math.abs(haystack.offsets[position] - near) < Math.abs(haystack.offsets[best] - near) ? position : best
+    );
+  const span = (start: number, end: number) => ({
+    start: haystack.offsets[start],
+    end: haystack.offsets[Math.min(end, haystack.offsets.length) - 1] + 1
+  });
+
+  const exact = occurrences(needle);
+  if (exact.length > 0) {
+    const start = closest(exact);
+    return span(start, start + needle.length);
+  }
+
+  const head = needle.slice(0, 40);
+  const tail = needle.slice(-40);
+  const heads = occurrences(head);
+  if (heads.length === 0) return null;
+  const start = closest(heads);
+  const [end] = occurrences(tail, start + head.length, start + Math.ceil(needle.length * 1.5));
+  return span(start, end !== undefined ? end + tail.length : start + needle.length);
+}
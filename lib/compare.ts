@@ -0,0 +1,345 @@
+import { Document } from '@langchain/core/documents';
+import { Citation } from '@/app/types/chat';
+import { ComparedDocument, ComparisonPoint, ComparisonResult } from '@/app/types/compare';
+import { ChunkMetadata } from './chunking';
+import { Bm25Index, tokenize } from './bm25';
+import { computeConfidence, resolveMinConfidence, similaritySignal, termCoverage } from './confidence';
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings';
+import { LlmProvider } from './llm';
+import { findPageRange } from './pages';
+import { citationMarkersIn, normalizeCitationMarkers } from './citations';
+import { buildComparePrompt } from './prompts';
+import {
+  maximalMarginalRelevance,
+  rankChunksByRetriever,
+  rankSentences,
+  reciprocalRankFusion,
+  RetrievalOptions,
+  termSimilarity
+} from './retrieval';
+
+// A document to compare, with its chunks and (for stored documents) their embeddings
+export interface ComparisonInput {
+  documentId?: string;
+  source: string;
+  chunks: Document<ChunkMetadata>[];
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>;
+}
+
+export interface CompareOptions {
+  retrieval: RetrievalOptions;
+  llm?: LlmProvider | null; // Without one, passages are aligned by their wording
+  minConfidence?: number; // Documents scoring below this are treated as not addressing the question
+  signal?: AbortSignal;
+}
+
+const PASSAGES_PER_DOCUMENT = 3;
+const CHUNKS_PER_DOCUMENT = 5; // Top-ranked chunks whose sentences are candidates
+const AGREEMENT_SIMILARITY = 0.6; // Passages this similar say the same thing
+const TOPIC_SIMILARITY = 0.15; // Below this, passages don't address the same point
+
+// A retrieved passage: the chunk text for the LLM and one of its sentences as the citation
+interface RetrievedPassage {
+  passage: string;
+  citation: Citation;
+}
+
+// A document's passages, with how confident retrieval is that they address the question (0-1)
+interface Retrieval {
+  passages: RetrievedPassage[];
+  confidence: number;
+}
+
+/**
+ * Rank one document's chunks for the question the same way chat does (BM25 and
+ * semantic search merged with rank fusion), then keep a few diverse sentences
+ * from the top chunks, so a short document still yields several points. The
+ * confidence is computed from the same signals as chat's.
+ */
+async function retrievePassages(
+  query: string,
+  terms: string[],
+  input: ComparisonInput,
+  provider: EmbeddingProvider | null,
+  { retrieval }: CompareOptions
+): Promise<Retrieval> {
+  const { chunks } = input;
+  const index = new Bm25Index(chunks.map(chunk => chunk.pageContent));
+  const rankings = await rankChunksByRetriever(query, terms, chunks, index, provider, retrieval, input.embedChunks);
+  const fused = reciprocalRankFusion(rankings, retrieval.weights, retrieval.rrfK).slice(0, CHUNKS_PER_DOCUMENT);
+  const toPassage = (chunk: Document<ChunkMetadata>, text: string, offset: number, score: number): RetrievedPassage => {
+    const start = chunk.metadata.start + offset;
+    return {
+      passage: chunk.pageContent,
+      citation: {
+        text,
+        source: chunk.metadata.source || input.source,
+        documentId: chunk.metadata.documentId,
+        start,
+        end: start + text.length,
+        ...findPageRange(chunk.metadata.pageSpans, start, start + text.length),
+        score: Number(score.toFixed(4))
+      }
+    };
+  };
+
+  // Sentences of lower-ranked chunks count for slightly less; overlapping chunks repeat sentences
+  const candidates: RetrievedPassage[] = [];
+  const seen = new Set<number>();
+  fused.forEach(({ index: chunkIndex }, rank) => {
+    const chunk = chunks[chunkIndex];
+    for (const { sentence, start, score } of rankSentences(chunk.pageContent, terms, index)) {
+      if (seen.has(chunk.metadata.start + start)) continue;
+      seen.add(chunk.metadata.start + start);
+      candidates.push(toPassage(chunk, sentence, start, score / (1 + 0.1 * rank)));
+    }
+  });
+
+  // Semantic matches may share no terms with the question; fall back to the start of the best chunk
+  let passages: RetrievedPassage[];
+  if (candidates.length === 0 && fused.length > 0) {
+    const chunk = chunks[fused[0].index];
+    passages = [toPassage(chunk, chunk.pageContent.substring(0, 300).trim(), 0, fused[0].score)];
+  } else {
+    passages = maximalMarginalRelevance(
+      candidates,
+      candidate => candidate.citation.score ?? 0,
+      (a, b) => termSimilarity(a.citation.text, b.citation.text),
+      retrieval.lambda,
+      PASSAGES_PER_DOCUMENT
+    );
+  }
+
+  const retrieversRun = Object.keys(rankings).length;
+  const confidence = passages.length === 0 ? 0 : computeConfidence({
+    termCoverage: termCoverage(terms, passages.map(passage => passage.passage), index),
+    semanticSimilarity: rankings.semantic ? similaritySignal(rankings.semantic[0]?.score ?? 0) : undefined,
+    retrieverAgreement: retrieversRun > 0 ? fused[0].retrievers.length / retrieversRun : 0
+  });
+  return { passages, confidence };
+}
+
+// Shorten a quoted sentence for use inside a comparison point
+function quote(text: string, maxLength = 160): string {
+  const short = text.length <= maxLength ? text : `${text.slice(0, maxLength).replace(/\s+\S*$/, '')}...`;
+  return `"${short}"`;
+}
+
+// Figures such as "30", "1,500" or "5%"
+function figuresIn(text: string): string[] {
+  return text.match(/\d[\d,.]*\d%?|\d%?/g) || [];
+}
+
+// Whether two passages quote the same figures
+function sameFigures(a: string, b: string): boolean {
+  const figuresA = figuresIn(a);
+  const figuresB = figuresIn(b);
+  return figuresA.length === figuresB.length && figuresA.every(figure => figuresB.includes(figure));
+}
+
+// Describe how two passages on the same point differ: by their figures when those differ, else by their wording
+function describeDifference(a: Citation, b: Citation): string {
+  const figuresA = figuresIn(a.text);
+  const figuresB = figuresIn(b.text);
+  const onlyA = figuresA.filter(figure => !figuresB.includes(figure));
+  const onlyB = figuresB.filter(figure => !figuresA.includes(figure));
+  if (onlyA.length > 0 || onlyB.length > 0) {
+    return `${a.source} says ${onlyA.join(', ') || 'no figure'} where ${b.source} says ${onlyB.join(', ') || 'no figure'}: ${quote(a.text)} vs ${quote(b.text)}`;
+  }
+
+  const termsA = new Set(tokenize(a.text));
+  const termsB = new Set(tokenize(b.text));
+  const distinctA = Array.from(termsA).filter(term => !termsB.has(term)).slice(0, 4);
+  const distinctB = Array.from(termsB).filter(term => !termsA.has(term)).slice(0, 4);
+  return `${a.source} mentions ${distinctA.join(', ') || 'nothing else'}; ${b.source} mentions ${distinctB.join(', ') || 'nothing else'}: ${quote(a.text)} vs ${quote(b.text)}`;
+}
+
+/**
+ * Align passages without a model. Each passage of the first document is matched
+ * with the most similar passage of every other document: near-identical wording
+ * is an agreement, a weaker match is a difference on the same point, and no
+ * match means only one document covers it.
+ */
+export function alignPassages(documents: ComparedDocument[]): { agreements: ComparisonPoint[]; differences: ComparisonPoint[] } {
+  const agreements: ComparisonPoint[] = [];
+  const differences: ComparisonPoint[] = [];
+  const matched = new Set<number>();
+  const [pivot, ...others] = documents;
+
+  for (const document of documents) {
+    if (document.passages.length === 0) {
+      differences.push({ text: `${document.source} doesn't appear to address this question`, markers: [] });
+    }
+  }
+
+  for (const passage of pivot?.passages || []) {
+    const matches = others
+      .filter(other => other.passages.length > 0)
+      .map(other => {
+        const scored = other.passages.map(candidate => ({ candidate, similarity: termSimilarity(passage.text, candidate.text) }));
+        return scored.reduce((best, next) => next.similarity > best.similarity ? next : best);
+      });
+
+    // Near-identical sentences with different figures ("2 days" vs "4 days") are differences
+    const agrees = (match: { candidate: Citation; similarity: number }) =>
+      match.similarity >= AGREEMENT_SIMILARITY && sameFigures(passage.text, match.candidate.text);
+    const agreeing = matches.filter(agrees);
+    const differing = matches.filter(match => match.similarity >= TOPIC_SIMILARITY && !agrees(match));
+    [...agreeing, ...differing].forEach(match => matched.add(match.candidate.marker!));
+
+    if (agreeing.length > 0) {
+      const sources = [pivot.source, ...agreeing.map(match => match.candidate.source)];
+      agreements.push({
+        text: `${sources.join(' and ')} agree: ${quote(passage.text)}`,
+        markers: [passage.marker!, ...agreeing.map(match => match.candidate.marker!)]
+      });
+    }
+    differing.forEach(match => differences.push({
+      text: describeDifference(passage, match.candidate),
+      markers: [passage.marker!, match.candidate.marker!]
+    }));
+    if (agreeing.length === 0 && differing.length === 0) {
+      differences.push({ text: `Only ${pivot.source} covers this: ${quote(passage.text)}`, markers: [passage.marker!] });
+    }
+  }
+
+  for (const other of others) {
+    for (const passage of other.passages) {
+      if (matched.has(passage.marker!)) continue;
+      differences.push({ text: `Only ${other.source} covers this: ${quote(passage.text)}`, markers: [passage.marker!] });
+    }
+  }
+
+  return { agreements, differences };
+}
+
+// Read "AGREEMENT: ..." and "DIFFERENCE: ..." lines from the model's reply
+function parseComparison(text: string, passageCount: number): { agreements: ComparisonPoint[]; differences: ComparisonPoint[] } {
+  const agreements: ComparisonPoint[] = [];
+  const differences: ComparisonPoint[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*(?:[-*•]\s*)?\**(agreements?|differences?)\**\s*:\s*(.+)$/i);
+    if (!match) continue;
+
+    const normalized = normalizeCitationMarkers(match[2], passageCount);
+    const point = {
+      text: normalized.replace(/\s*\[\d+\]/g, '').trim(),
+      markers: citationMarkersIn(normalized)
+    };
+    if (!point.text) continue;
+    (match[1].toLowerCase().startsWith('agree') ? agreements : differences).push(point);
+  }
+
+  if (agreements.length === 0 && differences.length === 0) {
+    throw new Error('The comparison had no AGREEMENT or DIFFERENCE lines');
+  }
+  return { agreements, differences };
+}
+
+// Agreements and differences as text, each point followed by its markers
+export function formatComparison(agreements: ComparisonPoint[], differences: ComparisonPoint[]): string {
+  const list = (points: ComparisonPoint[]) => points
+    .map(point => `- ${point.text}${point.markers.length > 0 ? ' ' : ''}${point.markers.map(marker => `[${marker}]`).join('')}`)
+    .join('\n');
+
+  if (agreements.length === 0 && differences.length === 0) {
+    return "The documents don't appear to address this question.";
+  }
+  return [
+    agreements.length > 0 ? `Agreements:\n${list(agreements)}` : 'Agreements: none found.',
+    differences.length > 0 ? `Differences:\n${list(differences)}` : 'Differences: none found.'
+  ].join('\n\n');
+}
+
+/**
+ * Retrieve the passages of each document that answer the same question, then
+ * describe where the documents agree and differ. Uses the LLM provider when one
+ * is given and falls back to aligning passages by wording if it fails.
+ */
+export async function compareDocuments(
+  question: string,
+  inputs: ComparisonInput[],
+  options: CompareOptions
+): Promise<ComparisonResult> {
+  let terms = Array.from(new Set(tokenize(question)));
+  if (terms.length === 0) {
+    terms = question.toLowerCase().split(/\s+/).filter(w => w.length > 1);
+  }
+
+  let provider: EmbeddingProvider | null = null;
+  if (options.retrieval.mode !== 'lexical') {
+    try {
+      provider = getEmbeddingProvider();
+    } catch (error) {
+      console.error('No embedding provider, using BM25 ranking:', error);
+    }
+  }
+
+  // Documents are searched one by one so each gets its own passages; markers run across all of them
+  const retrieved: Retrieval[] = [];
+  for (const input of inputs) {
+    if (options.signal?.aborted) break;
+    retrieved.push(await retrievePassages(question, terms, input, provider, options));
+  }
+
+  // Like chat, passages that probably don't answer the question are left out rather than compared
+  const threshold = resolveMinConfidence(options.minConfidence);
+  const kept = inputs.map((_, i) => retrieved[i] && retrieved[i].confidence >= threshold ? retrieved[i].passages : []);
+  const confidence = Math.max(0, ...retrieved.map(retrieval => retrieval.confidence));
+  console.log(`Comparison confidence ${retrieved.map(retrieval => retrieval.confidence.toFixed(2)).join(', ')} (threshold ${threshold})`);
+
+  let marker = 0;
+  const documents: ComparedDocument[] = inputs.map((input, i) => ({
+    documentId: input.documentId,
+    source: input.source,
+    passages: kept[i].map(({ citation }) => ({ ...citation, marker: ++marker })),
+    confidence: Number((retrieved[i]?.confidence ?? 0).toFixed(2))
+  }));
+
+  if (marker === 0) {
+    return {
+      question,
+      documents,
+      agreements: [],
+      differences: [],
+      method: 'extractive',
+      summary: `I couldn't find "${question}" addressed in the selected documents. They may not cover this; try rephrasing your question or selecting other documents.`,
+      confidence: Number(confidence.toFixed(2)),
+      abstained: true
+    };
+  }
+
+  let method: ComparisonResult['method'] = 'extractive';
+  let points: { agreements: ComparisonPoint[]; differences: ComparisonPoint[] } | null = null;
+
+  if (options.llm) {
+    try {
+      const messages = buildComparePrompt(question, documents.map((document, i) => ({
+        source: document.source,
+        passages: document.passages.map((citation, j) => ({
+          text: kept[i][j].passage,
+          source: document.source,
+          page: citation.page,
+          pageEnd: citation.pageEnd
+        }))
+      })));
+      points = parseComparison(await options.llm.generate(messages, { signal: options.signal }), marker);
+      method = 'llm';
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('LLM comparison failed, aligning passages instead:', error);
+    }
+  }
+
+  const { agreements, differences } = points || alignPassages(documents);
+  return {
+    question,
+    documents,
+    agreements,
+    differences,
+    method,
+    summary: formatComparison(agreements, differences),
+    confidence: Number(confidence.toFixed(2))
+  };
+}
@@ -0,0 +1,100 @@
+import { Bm25Index, QUESTION_WORDS, stem, tokenize } from './bm25';
+
+// Evidence used to judge whether the documents actually answer a question (each 0-1)
+export interface ConfidenceSignals {
+  termCoverage: number; // Share of the question's IDF weight found in the cited passages
+  semanticSimilarity?: number; // Best chunk similarity, when semantic retrieval ran
+  retrieverAgreement: number; // Share of the retrievers that ran which found the top passage
+  answerSupport?: number; // Share of a generated answer's terms found in the cited passages
+}
+
+// Relative weight of each retrieval signal; a missing one is left out and the rest renormalized
+const RETRIEVAL_WEIGHTS = {
+  termCoverage: 0.5,
+  semanticSimilarity: 0.35,
+  retrieverAgreement: 0.15
+};
+
+// Tuned on questions about a sample handbook: answerable ones scored 0.5 and up, unanswerable ones 0.2 and below
+export const DEFAULT_MIN_CONFIDENCE = 0.35;
+
+// Threshold below which answers are withheld: request value, then MIN_CONFIDENCE, then the default
+export function resolveMinConfidence(value?: unknown): number {
+  const fromEnv = parseFloat(process.env.MIN_CONFIDENCE || '');
+  const fallback = Number.isFinite(fromEnv) ? fromEnv : DEFAULT_MIN_CONFIDENCE;
+  const threshold = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return Math.min(1, Math.max(0, threshold));
+}
+
+// Stems of the terms of some passages
+function passageStems(passages: string[]): Set<string> {
+  return new Set(passages.flatMap(passage => tokenize(passage).map(stem)));
+}
+
+/**
+ * Share of the question's informative weight present in the passages. Terms
+ * match on their stem ("submit" finds "submitted") and question words such as
+ * "long" in "how long" are left out. Terms are weighted by IDF, so a word that
+ * appears all over the documents ("contract" in a contract) counts for little,
+ * and terms absent from every document, in any form, count fully.
+ */
+export function termCoverage(terms: string[], passages: string[], index: Bm25Index): number {
+  const topicTerms = terms.filter(term => !QUESTION_WORDS.has(term));
+  if (topicTerms.length === 0) return 0;
+
+  const unseenIdf = Math.log(1 + (index.size + 0.5) / 0.5);
+  const stems = passageStems(passages);
+  let total = 0;
+  let covered = 0;
+
+  for (const term of topicTerms) {
+    const idf = index.stemIdf(term) || unseenIdf;
+    total += idf;
+    if (stems.has(stem(term))) covered += idf;
+  }
+
+  return total > 0 ? covered / total : 0;
+}
+
+// Share of a generated answer's content terms that appear, in some form, in its cited passages
+export function answerSupport(answer: string, passages: string[]): number {
+  const answerStems = Array.from(new Set(tokenize(answer.replace(/\[\d+\]/g, '')).map(stem)));
+  if (answerStems.length === 0) return 0;
+
+  const stems = passageStems(passages);
+  return answerStems.filter(term => stems.has(term)).length / answerStems.length;
+}
+
+// Rescale cosine similarity so that unrelated text (~0.1) maps to 0 and close matches (0.6+) to 1
+export function similaritySignal(similarity: number): number {
+  return Math.min(1, Math.max(0, (similarity - 0.1) / 0.5));
+}
+
+// Logistic curve centred on 0.5, so that clear matches and clear misses separate
+function calibrate(value: number): number {
+  return 1 / (1 + Math.exp(-8 * (value - 0.5)));
+}
+
+/**
+ * Combine the signals into a 0-1 confidence. The retrieval signals are averaged;
+ * a generated answer can then score no higher than its support in the passages,
+ * so a fluent answer built on good retrieval but not on the text is still
+ * distrusted. Weights and slope are hand-tuned, not learned.
+ */
+export function computeConfidence(signals: ConfidenceSignals): number {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  (Object.keys(RETRIEVAL_WEIGHTS) as (keyof typeof RETRIEVAL_WEIGHTS)[]).forEach(name => {
+    const value = signals[name];
+    if (value === undefined || !Number.isFinite(value)) return;
+    weighted += RETRIEVAL_WEIGHTS[name] * Math.min(1, Math.max(0, value));
+    totalWeight += RETRIEVAL_WEIGHTS[name];
+  });
+
+  if (totalWeight === 0) return 0;
+  const retrieval = calibrate(weighted / totalWeight);
+  return signals.answerSupport === undefined
+    ? retrieval
+    : Math.min(retrieval, calibrate(signals.answerSupport));
+}
@@ -0,0 +1,221 @@
+import { Citation } from '@/app/types/chat';
+import { QUESTION_WORDS, STOP_WORDS } from './bm25';
+import { splitSentences } from './chunking';
+import { LlmProvider } from './llm';
+import { buildRewritePrompt } from './prompts';
+
+// A previous message in the conversation, as sent by the client
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: Citation[];
+}
+
+// A question rewritten so it can be understood without the conversation
+export interface StandaloneQuery {
+  query: string;
+  isFollowUp: boolean;
+  method: 'none' | 'heuristic' | 'llm';
+}
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3,
+  fourth: 4, '4th': 4, fifth: 5, '5th': 5, last: -1
+};
+
+// "the second one", "the last point", "the 3rd option"...
+const ORDINAL_REFERENCE = /\b(?:the\s+)?(first|1st|second|2nd|third|3rd|fourth|4th|fifth|5th|last)\s+(?:one|item|point|option|step|source|citation|passage|document)\b/i;
+
+// A phrase after an ordinal that says which list it means ("the first step to file a claim"),
+// so it doesn't refer to the previous answer
+const ORDINAL_QUALIFIER = /^\s*(?:to|of|for|in|on|under|when|that|which)\b/i;
+
+// Pronouns that can point back at the previous question's subject
+const PRONOUN = /\b(it|they|them|its|their|this|that|these|those)\b/gi;
+const DEMONSTRATIVES = new Set(['this', 'that', 'these', 'those']);
+
+// Words before a noun, so the content word after them can be a pronoun's antecedent
+const DETERMINERS = new Set(['the', 'a', 'an', 'my', 'our', 'your', 'his', 'her', 'each', 'every', 'any', 'some', 'which', 'what', 'whose']);
+
+// What can follow a demonstrative used on its own ("is that covered?", "what does this mean?"):
+// an auxiliary, a preposition, a verb in any form or a past participle. Before anything else it
+// is more likely a determiner ("that clause") or a relative "that"
+const AFTER_STANDALONE_DEMONSTRATIVE = /^\s*(?:$|[?.!,;:]|(?:is|are|was|were|be|been|does|do|did|can|could|will|would|should|may|might|must|has|have|had|about|for|of|in|on|to|from|with)\b|(?:mean|say|cover|include|allow|cost|require|count|matter|change|affect|need|take|last|work|happen|expire|get)(?:s|d|ed|ing)?\b|appl(?:y|ies|ying)\b|\p{L}+ed\b)/iu;
+
+// Openings that only make sense as a continuation
+const FOLLOW_UP_START = /^\s*(?:and|but|also|so|then|what about|how about|what else|why not|how come)\b/i;
+
+const isTopicWord = (word: string) => word.length > 2 && !STOP_WORDS.has(word) && !QUESTION_WORDS.has(word);
+
+// Whether the text before a pronoun has a noun it could refer to: a plural, or a word after a determiner
+function hasAntecedent(before: string): boolean {
+  const words = (before.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || []).map(word => word.toLowerCase());
+  return words.some((word, i) => isTopicWord(word) && (
+    /[^s]s$/.test(word) || (i > 0 && DETERMINERS.has(words[i - 1]))
+  ));
+}
+
+/**
+ * The pronoun in a question that refers to an earlier turn, if any. A pronoun
+ * only counts when no noun before it in the question could be what it refers
+ * to, and this/that/these/those only when they stand on their own rather than
+ * before a noun or a relative clause ("the rules that apply"). When unsure,
+ * there is none, so the question is left as asked.
+ */
+function findBackReference(question: string): { index: number; word: string } | null {
+  for (const match of question.matchAll(PRONOUN)) {
+    const index = match.index ?? 0;
+    if (hasAntecedent(question.slice(0, index))) return null;
+
+    const word = match[0];
+    const standalone = !DEMONSTRATIVES.has(word.toLowerCase())
+      || AFTER_STANDALONE_DEMONSTRATIVE.test(question.slice(index + word.length));
+    if (standalone) return { index, word };
+  }
+  return null;
+}
+
+// Whether a question has an ordinal pointing at an item of the previous answer
+function hasOrdinalReference(question: string): boolean {
+  const match = question.match(ORDINAL_REFERENCE);
+  return !!match && !ORDINAL_QUALIFIER.test(question.slice((match.index ?? 0) + match[0].length));
+}
+
+// Whether a question relies on earlier turns to be understood
+export function isFollowUpQuestion(question: string, history: ConversationTurn[]): boolean {
+  if (!history.some(turn => turn.role === 'user')) return false;
+
+  return hasOrdinalReference(question)
+    || findBackReference(question) !== null
+    || FOLLOW_UP_START.test(question)
+    // Nothing to search for on its own, as in "why?" or "how much?"
+    || !topicOf(question);
+}
+
+// Key words of a question in their original form, e.g. "warranty period laptops"
+function topicOf(question: string): string {
+  const words = question.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+  return words.filter(word => isTopicWord(word.toLowerCase())).join(' ');
+}
+
+// Items an ordinal can refer to: list entries of the answer, else its citations, else its sentences
+function referenceableItems(answer: ConversationTurn | undefined): string[] {
+  if (!answer) return [];
+
+  const listItems = answer.content
+    .split('\n')
+    .map(line => line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/)?.[1]?.trim())
+    .filter((item): item is string => !!item);
+  if (listItems.length > 0) return listItems;
+
+  if (answer.citations && answer.citations.length > 0) {
+    return answer.citations.map(citation => citation.text);
+  }
+
+  return splitSentences(answer.content, { lineBreaks: true }).map(s => s.text).filter(s => s.length > 3);
+}
+
+// Trim a referenced item to a length that still works as part of a query
+function shorten(text: string, maxLength = 160): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength).replace(/\s+\S*$/, '')}...`;
+}
+
+/**
+ * Rewrite a follow-up without a model. The question is kept as asked and the
+ * key words of what it refers to are appended for retrieval: the item an
+ * ordinal points at in the previous answer, or else the previous question's
+ * topic.
+ */
+export function rewriteFollowUp(question: string, history: ConversationTurn[]): string {
+  // Earlier questions may be follow-ups themselves, so resolve them in order
+  let previousQuestion = '';
+  const seen: ConversationTurn[] = [];
+  for (const turn of history) {
+    if (turn.role === 'user') {
+      previousQuestion = isFollowUpQuestion(turn.content, seen)
+        ? rewriteFollowUp(turn.content, seen)
+        : turn.content;
+    }
+    seen.push(turn);
+  }
+
+  const asked = question.trim();
+  let context = topicOf(previousQuestion);
+
+  const ordinal = hasOrdinalReference(asked) ? asked.match(ORDINAL_REFERENCE) : null;
+  if (ordinal) {
+    const lastAnswer = [...history].reverse().find(turn => turn.role === 'assistant');
+    const items = referenceableItems(lastAnswer);
+    const position = ORDINALS[ordinal[1].toLowerCase()];
+    const item = position === -1 ? items[items.length - 1] : items[position - 1];
+    if (item) context = topicOf(shorten(item)) || context;
+  }
+
+  // Skip words the question already has
+  const askedWords = new Set(topicOf(asked).toLowerCase().split(' '));
+  const terms = context.split(' ').filter(word => word && !askedWords.has(word.toLowerCase()));
+  return terms.length > 0 ? `${asked} ${[...new Set(terms)].join(' ')}` : asked;
+}
+
+// Clean up a model's rewrite: first line only, without labels or quotes
+function cleanRewrite(text: string): string {
+  const line = text.trim().split('\n')[0] || '';
+  return line
+    .replace(/^(standalone question|question|rewritten question)\s*:\s*/i, '')
+    .replace(/^["'“]|["'”]$/g, '')
+    .trim();
+}
+
+/**
+ * Turn the latest question into a standalone query. Uses the LLM provider when
+ * one is configured and falls back to the heuristic rewrite if it fails.
+ */
+export async function toStandaloneQuery(
+  question: string,
+  history: ConversationTurn[],
+  llm?: LlmProvider | null,
+  signal?: AbortSignal
+): Promise<StandaloneQuery> {
+  if (!isFollowUpQuestion(question, history)) {
+    return { query: question, isFollowUp: false, method: 'none' };
+  }
+
+  if (llm) {
+    try {
+      const rewritten = cleanRewrite(await llm.generate(buildRewritePrompt(question, history), {
+        maxTokens: 96,
+        temperature: 0,
+        signal
+      }));
+      if (rewritten) {
+        return { query: rewritten, isFollowUp: true, method: 'llm' };
+      }
+    } catch (error) {
+      console.error('Query rewriting with the LLM failed, using heuristics:', error);
+    }
+  }
+
+  return { query: rewriteFollowUp(question, history), isFollowUp: true, method: 'heuristic' };
+}
+
+// Citations of the most recent answers, newest first
+export function earlierCitations(history: ConversationTurn[], answers = 2): Citation[] {
+  return history
+    .filter(turn => turn.role === 'assistant' && turn.citations && turn.citations.length > 0)
+    .slice(-answers)
+    .reverse()
+    .flatMap(turn => turn.citations || []);
+}
+
+// Validate the message history sent by the client, dropping malformed entries
+export function parseConversation(messages: unknown): ConversationTurn[] {
+  if (!Array.isArray(messages)) return [];
+
+  return messages
+    .filter(message => message && typeof message.content === 'string')
+    .map(message => ({
+      role: message.role === 'assistant' ? 'assistant' as const : 'user' as const,
+      content: message.content,
+      citations: Array.isArray(message.citations) ? message.citations : undefined
+    }));
+}
@@ -0,0 +1,274 @@
+import { ParagraphChange, RedlineDiff, RedlineStats, RedlineVersion, SentenceChange } from '@/app/types/diff';
+import { splitSentences } from './chunking';
+import { TermVector, termVector, vectorSimilarity } from './retrieval';
+
+// One step of an edit script between two sequences
+export interface Edit {
+  type: 'equal' | 'insert' | 'delete';
+  aIndex?: number; // Position in the first sequence (equal and delete)
+  bIndex?: number; // Position in the second sequence (equal and insert)
+}
+
+// Past this many edits the versions are treated as unrelated, which bounds memory use
+const MAX_EDIT_DISTANCE = 1000;
+
+// Past this many paragraph comparisons, only identical paragraphs are found as moves and no
+// more removed and added paragraphs are paired, which bounds the time spent on unrelated versions
+const MAX_SIMILARITY_COMPARISONS = 100000;
+
+// Moved paragraphs may have been lightly edited on the way
+const MOVE_SIMILARITY = 0.9;
+
+// Below this, a removed and an added paragraph are separate edits rather than one changed paragraph
+const CHANGE_SIMILARITY = 0.4;
+
+/**
+ * Shortest edit script between two sequences with Myers' O(ND) algorithm.
+ * The common prefix and suffix are matched first, so the search only covers
+ * the part that changed.
+ */
+export function diffSequences(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const edits: Edit[] = [];
+  for (let i = 0; i < prefix; i++) edits.push({ type: 'equal', aIndex: i, bIndex: i });
+  edits.push(...myersDiff(a, b, prefix, a.length - suffix, prefix, b.length - suffix));
+  for (let i = suffix; i > 0; i--) edits.push({ type: 'equal', aIndex: a.length - i, bIndex: b.length - i });
+  return edits;
+}
+
+// Myers' greedy search over a[aStart, aEnd) and b[bStart, bEnd), then backtracking through the saved frontiers
+function myersDiff(a: string[], b: string[], aStart: number, aEnd: number, bStart: number, bEnd: number): Edit[] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const limit = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  search:
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...Array.from({ length: n }, (_, i) => ({ type: 'delete' as const, aIndex: aStart + i })),
+      ...Array.from({ length: m }, (_, i) => ({ type: 'insert' as const, bIndex: bStart + i }))
+    ];
+  }
+
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = frontier[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      edits.push({ type: 'equal', aIndex: aStart + x, bIndex: bStart + y });
+    }
+    if (x === previousX) {
+      y--;
+      edits.push({ type: 'insert', bIndex: bStart + y });
+    } else {
+      x--;
+      edits.push({ type: 'delete', aIndex: aStart + x });
+    }
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    edits.push({ type: 'equal', aIndex: aStart + x, bIndex: bStart + y });
+  }
+
+  return edits.reverse();
+}
+
+// Paragraphs separated by blank lines; extracted PDF text often has none, so fall back to lines
+export function splitParagraphs(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  let paragraphs = normalized.split(/\n\s*\n/);
+  if (paragraphs.length === 1) paragraphs = normalized.split('\n');
+  return paragraphs.map(paragraph => paragraph.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+// Sentence-level diff of a paragraph that was edited
+export function diffSentences(before: string, after: string): SentenceChange[] {
+  const a = splitSentences(before).map(sentence => sentence.text);
+  const b = splitSentences(after).map(sentence => sentence.text);
+  return diffSequences(a, b).map(edit => ({
+    type: edit.type,
+    text: edit.type === 'insert' ? b[edit.bIndex!] : a[edit.aIndex!]
+  }));
+}
+
+/**
+ * Redline between two versions of a document. Paragraphs are aligned first;
+ * a removed paragraph that reappears elsewhere is a move, and within each run
+ * of changes removed and added paragraphs that are still similar are paired
+ * up as one changed paragraph with a sentence-level diff.
+ */
+export function diffDocuments(
+  beforeText: string,
+  afterText: string,
+  before: Omit<RedlineVersion, 'paragraphs'>,
+  after: Omit<RedlineVersion, 'paragraphs'>
+): RedlineDiff {
+  const a = splitParagraphs(beforeText);
+  const b = splitParagraphs(afterText);
+  const edits = diffSequences(a, b);
+
+  // Number each run of consecutive non-equal edits, so moves can be told apart from in-place edits
+  const blockOf = new Map<Edit, number>();
+  let block = 0;
+  edits.forEach((edit, i) => {
+    if (edit.type === 'equal') return;
+    if (i === 0 || edits[i - 1].type === 'equal') block++;
+    blockOf.set(edit, block);
+  });
+
+  // Each paragraph is tokenized once, however many others it is compared with
+  const vectors = new Map<Edit, TermVector>();
+  const vectorOf = (edit: Edit) => {
+    let vector = vectors.get(edit);
+    if (!vector) {
+      vector = termVector(edit.type === 'delete' ? a[edit.aIndex!] : b[edit.bIndex!]);
+      vectors.set(edit, vector);
+    }
+    return vector;
+  };
+  let comparisons = 0;
+  const similarity = (removed: Edit, added: Edit) => {
+    if (comparisons >= MAX_SIMILARITY_COMPARISONS) return 0;
+    comparisons++;
+    return vectorSimilarity(vectorOf(removed), vectorOf(added));
+  };
+
+  // A paragraph removed in one place and added in another has moved
+  const deletes = edits.filter(edit => edit.type === 'delete');
+  const inserts = edits.filter(edit => edit.type === 'insert');
+  const moveOf = new Map<Edit, number>();
+  let moves = 0;
+  for (const removed of deletes) {
+    const text = a[removed.aIndex!];
+    const target = inserts.find(added =>
+      !moveOf.has(added) &&
+      blockOf.get(added) !== blockOf.get(removed) &&
+      (b[added.bIndex!] === text || similarity(removed, added) >= MOVE_SIMILARITY)
+    );
+    if (target) {
+      moves++;
+      moveOf.set(removed, moves);
+      moveOf.set(target, moves);
+    }
+  }
+
+  // Within each run, pair removed and added paragraphs that are still alike, keeping their order
+  const pairedWith = new Map<Edit, Edit>();
+  for (let id = 1; id <= block; id++) {
+    const runDeletes = deletes.filter(edit => blockOf.get(edit) === id && !moveOf.has(edit));
+    const runInserts = inserts.filter(edit => blockOf.get(edit) === id && !moveOf.has(edit));
+    let next = 0;
+    for (const removed of runDeletes) {
+      let best = -1;
+      let bestSimilarity = CHANGE_SIMILARITY;
+      for (let i = next; i < runInserts.length; i++) {
+        const score = similarity(removed, runInserts[i]);
+        if (score >= bestSimilarity && (best === -1 || score > bestSimilarity)) {
+          best = i;
+          bestSimilarity = score;
+        }
+      }
+      if (best !== -1) {
+        pairedWith.set(runInserts[best], removed);
+        pairedWith.set(removed, runInserts[best]);
+        next = best + 1;
+      }
+    }
+  }
+
+  // Changed paragraphs are reported where the new version has them
+  const changes: ParagraphChange[] = [];
+  const stats: RedlineStats = { unchanged: 0, inserted: 0, deleted: 0, changed: 0, moved: moves };
+
+  for (const edit of edits) {
+    if (edit.type === 'equal') {
+      stats.unchanged++;
+      changes.push({ type: 'equal', before: a[edit.aIndex!], after: b[edit.bIndex!], beforeIndex: edit.aIndex, afterIndex: edit.bIndex });
+    } else if (moveOf.has(edit)) {
+      const moveId = moveOf.get(edit)!;
+      if (edit.type === 'delete') {
+        changes.push({ type: 'moved-from', before: a[edit.aIndex!], beforeIndex: edit.aIndex, moveId });
+      } else {
+        const origin = deletes.find(removed => moveOf.get(removed) === moveId)!;
+        const previous = a[origin.aIndex!];
+        const current = b[edit.bIndex!];
+        changes.push({
+          type: 'moved-to',
+          before: previous,
+          after: current,
+          beforeIndex: origin.aIndex,
+          afterIndex: edit.bIndex,
+          moveId,
+          ...(previous !== current ? { sentences: diffSentences(previous, current) } : {})
+        });
+      }
+    } else if (pairedWith.has(edit)) {
+      if (edit.type === 'delete') continue;
+      const removed = pairedWith.get(edit)!;
+      stats.changed++;
+      changes.push({
+        type: 'change',
+        before: a[removed.aIndex!],
+        after: b[edit.bIndex!],
+        beforeIndex: removed.aIndex,
+        afterIndex: edit.bIndex,
+        sentences: diffSentences(a[removed.aIndex!], b[edit.bIndex!])
+      });
+    } else if (edit.type === 'delete') {
+      stats.deleted++;
+      changes.push({ type: 'delete', before: a[edit.aIndex!], beforeIndex: edit.aIndex });
+    } else {
+      stats.inserted++;
+      changes.push({ type: 'insert', after: b[edit.bIndex!], afterIndex: edit.bIndex });
+    }
+  }
+
+  return {
+    before: { ...before, paragraphs: a.length },
+    after: { ...after, paragraphs: b.length },
+    changes,
+    stats
+  };
+}
@@ -0,0 +1,294 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Document } from '@langchain/core/documents';
+import { DocumentSummary, PageSpan, StoredDocument, UploadedFileData } from '@/app/types/document';
+import { chunkDocument, ChunkingOptions, ChunkMetadata, resolveChunkingOptions } from './chunking';
+import { EmbeddingProvider } from './embeddings';
+import { ExtractedText, ExtractionError, extractTextFromDocument } from './documentText';
+import { isLegacyDocFile, isUploadedFile, legacyDocMessage } from './fileTypes';
+
+// Where documents are persisted; override for read-only deployments (e.g. /tmp on Vercel)
+const STORE_DIR = process.env.DOCUMENT_STORE_DIR || path.join(process.cwd(), '.data', 'documents');
+const MANIFEST_FILE = path.join(STORE_DIR, 'manifest.json');
+
+// Embeddings of a document's chunks, valid for one chunking setup and provider
+interface StoredVectors {
+  provider: string;
+  chunking: ChunkingOptions;
+  vectors: number[][];
+}
+
+let manifest: Map<string, DocumentSummary> | null = null;
+const documentCache = new Map<string, StoredDocument>();
+const vectorCache = new Map<string, StoredVectors>();
+
+// Store writes run one at a time so concurrent uploads don't clobber the manifest
+let writeQueue: Promise<unknown> = Promise.resolve();
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task, task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+const documentFile = (id: string) => path.join(STORE_DIR, `${id}.json`);
+const vectorFile = (id: string) => path.join(STORE_DIR, `${id}.vectors.json`);
+
+// IDs are UUIDs; checking the format also keeps paths inside the store directory
+export function isDocumentId(id: unknown): id is string {
+  return typeof id === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(id);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Error reading ${file}:`, error);
+    }
+    return null;
+  }
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  // Write to a temporary file first so a crash never leaves half a file behind
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(data));
+  await fs.rename(temporary, file);
+}
+
+async function loadManifest(): Promise<Map<string, DocumentSummary>> {
+  if (!manifest) {
+    const entries = await readJson<DocumentSummary[]>(MANIFEST_FILE);
+    manifest = new Map((entries || []).map(entry => [entry.id, entry]));
+  }
+  return manifest;
+}
+
+// Strip the text from a stored document
+function toSummary(document: StoredDocument): DocumentSummary {
+  const { text, pageSpans, ...summary } = document;
+  return summary;
+}
+
+// The stored document as a LangChain document, ready for chunking
+export function toLangchainDocument(document: StoredDocument): Document {
+  return new Document({
+    pageContent: document.text,
+    metadata: {
+      source: document.name,
+      type: document.type,
+      size: document.size,
+      documentId: document.id,
+      pageSpans: document.pageSpans
+    }
+  });
+}
+
+// List stored documents, newest first
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  const entries = Array.from((await loadManifest()).values());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Load a stored document with its text, or null if it doesn't exist
+export async function getDocument(id: string): Promise<StoredDocument | null> {
+  if (!isDocumentId(id)) return null;
+
+  const cached = documentCache.get(id);
+  if (cached) return cached;
+
+  const document = await readJson<StoredDocument>(documentFile(id));
+  if (document) documentCache.set(id, document);
+  return document;
+}
+
+/**
+ * Chunk a document's text. Chunking is deterministic, so chunks are rebuilt
+ * from the stored text rather than persisted; only their embeddings are.
+ */
+export function getDocumentChunks(document: StoredDocument, chunking?: Partial<ChunkingOptions>): Document<ChunkMetadata>[] {
+  return chunkDocument(toLangchainDocument(document), chunking);
+}
+
+/**
+ * Embeddings of a document's chunks, computed once per chunking setup and
+ * provider and persisted next to the document
+ */
+export async function getDocumentVectors(
+  document: StoredDocument,
+  chunks: Document<ChunkMetadata>[],
+  provider: EmbeddingProvider,
+  chunking?: Partial<ChunkingOptions>
+): Promise<number[][]> {
+  const options = resolveChunkingOptions(chunking);
+  const isCurrent = (stored: StoredVectors | null): stored is StoredVectors =>
+    !!stored &&
+    stored.provider === provider.name &&
+    stored.chunking.chunkSize === options.chunkSize &&
+    stored.chunking.chunkOverlap === options.chunkOverlap &&
+    stored.vectors.length === chunks.length;
+
+  const cached = vectorCache.get(document.id) || await readJson<StoredVectors>(vectorFile(document.id));
+  if (isCurrent(cached)) {
+    vectorCache.set(document.id, cached);
+    return cached.vectors;
+  }
+
+  console.log(`Embedding ${chunks.length} chunks of ${document.name} with ${provider.name}`);
+  const stored: StoredVectors = {
+    provider: provider.name,
+    chunking: options,
+    vectors: await provider.embedDocuments(chunks.map(chunk => chunk.pageContent))
+  };
+  vectorCache.set(document.id, stored);
+
+  // Only the default chunking is persisted, custom setups are cached in memory
+  const defaults = resolveChunkingOptions();
+  if (options.chunkSize === defaults.chunkSize && options.chunkOverlap === defaults.chunkOverlap) {
+    await enqueueWrite(() => writeJson(vectorFile(document.id), stored));
+  }
+
+  return stored.vectors;
+}
+
+/**
+ * Store an uploaded file's extracted text and index it: the text is chunked
+ * and, when a provider is given, embedded so later questions skip that work
+ */
+export async function saveDocument(
+  file: { name: string; type: string; size?: number },
+  extracted: ExtractedText,
+  provider?: EmbeddingProvider
+): Promise<DocumentSummary> {
+  const pageSpans = extracted.pageSpans || [];
+  const document: StoredDocument = {
+    id: randomUUID(),
+    name: file.name,
+    type: file.type,
+    size: file.size || 0,
+    characters: extracted.text.length,
+    pages: Math.max(1, pageSpans.length),
+    chunkCount: 0,
+    createdAt: new Date().toISOString(),
+    text: extracted.text,
+    pageSpans
+  };
+
+  const chunks = getDocumentChunks(document);
+  document.chunkCount = chunks.length;
+
+  await enqueueWrite(async () => {
+    await writeJson(documentFile(document.id), document);
+    const entries = await loadManifest();
+    entries.set(document.id, toSummary(document));
+    await writeJson(MANIFEST_FILE, Array.from(entries.values()));
+  });
+  documentCache.set(document.id, document);
+
+  // A failed embedding doesn't fail the upload; it is retried on the first question
+  if (provider) {
+    try {
+      await getDocumentVectors(document, chunks, provider);
+    } catch (error) {
+      console.error(`Error embedding ${document.name}:`, error);
+    }
+  }
+
+  console.log(`Stored document ${document.id} (${document.name}, ${chunks.length} chunks)`);
+  return toSummary(document);
+}
+
+// Delete a stored document and its embeddings; returns false if it didn't exist
+export async function deleteDocument(id: string): Promise<boolean> {
+  if (!isDocumentId(id)) return false;
+
+  return enqueueWrite(async () => {
+    const entries = await loadManifest();
+    const existed = entries.delete(id);
+    documentCache.delete(id);
+    vectorCache.delete(id);
+
+    await Promise.all([documentFile(id), vectorFile(id)].map(file =>
+      fs.unlink(file).catch((error: any) => {
+        if (error.code !== 'ENOENT') throw error;
+      })
+    ));
+
+    if (existed) {
+      await writeJson(MANIFEST_FILE, Array.from(entries.values()));
+    }
+    return existed;
+  });
+}
+
+// A document a request is about, whether stored or uploaded with the request
+export interface RequestedDocument {
+  source: string;
+  text: string;
+  pageSpans?: PageSpan[];
+  stored?: StoredDocument; // Stored documents can reuse their chunk embeddings
+  upload?: UploadedFileData;
+}
+
+// The requested document, or the error to respond with
+export type DocumentRequest =
+  | { document: RequestedDocument }
+  | { error: string; status: number };
+
+/**
+ * Load the document named by a request: a stored document (`documentId`) or
+ * an uploaded file (`file`), whose text is extracted. `purpose` finishes the
+ * message sent when neither is given, as in "Provide a documentId or a file
+ * to summarize".
+ */
+export async function loadRequestedDocument(request: unknown, purpose: string): Promise<DocumentRequest> {
+  const { documentId, file } = (request && typeof request === 'object' ? request : {}) as Record<string, unknown>;
+
+  if (documentId !== undefined) {
+    if (!isDocumentId(documentId)) {
+      return { error: `Invalid document ID: ${documentId}`, status: 400 };
+    }
+
+    const stored = await getDocument(documentId);
+    if (!stored) {
+      return { error: `Document not found: ${documentId}`, status: 404 };
+    }
+    return { document: { source: stored.name, text: stored.text, pageSpans: stored.pageSpans, stored } };
+  }
+
+  if (file !== undefined) {
+    if (!isUploadedFile(file)) {
+      return { error: 'file must have a name, type and data', status: 400 };
+    }
+    if (isLegacyDocFile(file.name, file.type)) {
+      return { error: legacyDocMessage(file.name), status: 415 };
+    }
+
+    try {
+      const { text, pageSpans } = await extractTextFromDocument(file);
+      return { document: { source: file.name, text, pageSpans, upload: file } };
+    } catch (error) {
+      if (error instanceof ExtractionError) return { error: `${file.name}: ${error.message}`, status: 422 };
+      throw error;
+    }
+  }
+
+  return { error: `Provide a documentId or a file ${purpose}`, status: 400 };
+}
+
+// Chunks of a requested document; stored documents keep their ID in the chunk metadata
+export function getRequestedChunks(document: RequestedDocument, chunking?: Partial<ChunkingOptions>): Document<ChunkMetadata>[] {
+  if (document.stored) return getDocumentChunks(document.stored, chunking);
+
+  return chunkDocument(new Document({
+    pageContent: document.text,
+    metadata: {
+      source: document.source,
+      type: document.upload?.type,
+      size: document.upload?.size || 0,
+      pageSpans: document.pageSpans
+    }
+  }), chunking);
+}
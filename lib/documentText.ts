@@ -0,0 +1,78 @@
+import { extractPdfContent } from '@/app/api/pdf/extract';
+import { PageSpan, UploadedFileData } from '@/app/types/document';
+import { extractTextFromDocx } from './docxUtils';
+import { isDocxFile } from './fileTypes';
+
+// Extracted document text with optional page boundaries
+export interface ExtractedText {
+  text: string;
+  pageSpans?: PageSpan[];
+}
+
+// Text could not be extracted from a file; the message says why and can be shown to the user
+export class ExtractionError extends Error {}
+
+/**
+ * Extract text from document data. Throws an ExtractionError when a file can't
+ * be read, so its failure is never mistaken for its text.
+ */
+export async function extractTextFromDocument(file: UploadedFileData): Promise<ExtractedText> {
+  try {
+    // If text was already extracted client-side, use that
+    if (file.text) {
+      console.log(`Using pre-extracted text for ${file.name}`);
+      return { text: file.text, pageSpans: file.pageSpans };
+    }
+    
+    // Handle different file types
+    if (file.type === 'application/pdf') {
+      // Use direct extraction for PDFs
+      try {
+        console.log('Using direct PDF extraction');
+        const base64Content = file.data.replace(/^data:application\/pdf;base64,/, '');
+        const { text, pageSpans } = await extractPdfContent(base64Content);
+        return { text, pageSpans };
+      } catch (error: any) {
+        console.error('Error in direct PDF extraction:', error);
+        throw new ExtractionError(error.message || 'This PDF could not be read.');
+      }
+    } else if (file.type.includes('text/')) {
+      // For text files, decode the base64
+      try {
+        const base64Content = file.data.split(',')[1] || file.data;
+        const binaryString = atob(base64Content);
+        return { text: binaryString };
+      } catch (e) {
+        console.error('Error decoding text file:', e);
+        throw new ExtractionError('This file could not be decoded as text.');
+      }
+    } else if (isDocxFile(file.name, file.type)) {
+      // Convert Word documents to structured text with mammoth
+      try {
+        console.log(`Converting DOCX: ${file.name}`);
+        const base64Content = file.data.split(',')[1] || file.data;
+        return { text: await extractTextFromDocx(Buffer.from(base64Content, 'base64')) };
+      } catch (e) {
+        console.error('Error converting DOCX:', e);
+        throw new ExtractionError('This Word document could not be read. It may be damaged or password-protected.');
+      }
+    } else if (file.type.includes('application/json')) {
+      try {
+        const base64Content = file.data.split(',')[1] || file.data;
+        const jsonString = atob(base64Content);
+        // Parse and stringify to make it readable
+        const jsonData = JSON.parse(jsonString);
+        return { text: JSON.stringify(jsonData, null, 2) };
+      } catch (e) {
+        console.error('Error parsing JSON:', e);
+        throw new ExtractionError('This file is not valid JSON.');
+      }
+    } else {
+      throw new ExtractionError(`Files of type ${file.type || 'unknown'} are not supported. Please upload a PDF, Word, text or JSON file.`);
+    }
+  } catch (error) {
+    if (error instanceof ExtractionError) throw error;
+    console.error('Error extracting text:', error);
+    throw new ExtractionError('Text could not be extracted from this file.');
+  }
+}
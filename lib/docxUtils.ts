@@ -0,0 +1,141 @@
+import mammoth from 'mammoth';
+
+// Decode the most common HTML entities produced by mammoth
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+// Convert the simple HTML produced by mammoth into plain text that keeps
+// document structure: "#" headings, "-"/"1." list items and "|" table rows
+export function htmlToStructuredText(html: string): string {
+  const lines: string[] = [];
+  const lists: { ordered: boolean; counter: number }[] = [];
+  let table: string[][] | null = null;
+  let row: string[] | null = null;
+  let cell: string[] | null = null;
+  let headingLevel = 0;
+  let inline = '';
+
+  // Emit the text collected since the last block boundary
+  const flush = () => {
+    const text = inline
+      .replace(/[ \t\u00a0]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .trim();
+    inline = '';
+    if (!text) return;
+
+    if (cell) {
+      cell.push(text.replace(/\n/g, ' '));
+    } else if (headingLevel > 0) {
+      lines.push(`${'#'.repeat(headingLevel)} ${text.replace(/\n/g, ' ')}`, '');
+    } else if (lists.length > 0) {
+      const list = lists[lists.length - 1];
+      const marker = list.ordered ? `${list.counter}.` : '-';
+      lines.push(`${'  '.repeat(lists.length - 1)}${marker} ${text.replace(/\n/g, ' ')}`);
+    } else {
+      lines.push(text, '');
+    }
+  };
+
+  const tokenRegex = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)[^>]*?(\/?)>|([^<]+)/g;
+  let match;
+
+  while ((match = tokenRegex.exec(html)) !== null) {
+    const [, closing, rawTag, , textContent] = match;
+
+    if (textContent !== undefined) {
+      inline += decodeEntities(textContent);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = closing === '/';
+
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      headingLevel = isClosing ? 0 : parseInt(tag[1], 10);
+    } else if (tag === 'p') {
+      flush();
+    } else if (tag === 'br') {
+      inline += '\n';
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      if (isClosing) {
+        lists.pop();
+        if (lists.length === 0 && !cell) lines.push('');
+      } else {
+        lists.push({ ordered: tag === 'ol', counter: 0 });
+      }
+    } else if (tag === 'li') {
+      flush();
+      if (!isClosing && lists.length > 0) {
+        lists[lists.length - 1].counter++;
+      }
+    } else if (tag === 'table') {
+      flush();
+      if (!isClosing) {
+        table = [];
+      } else if (table) {
+        table.forEach((cells, index) => {
+          lines.push(`| ${cells.join(' | ')} |`);
+          if (index === 0) {
+            lines.push(`|${cells.map(() => ' --- ').join('|')}|`);
+          }
+        });
+        lines.push('');
+        table = null;
+      }
+    } else if (tag === 'tr') {
+      flush();
+      if (!isClosing) {
+        row = [];
+      } else if (row && table) {
+        table.push(row);
+        row = null;
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      if (!isClosing) {
+        flush();
+        cell = [];
+      } else if (cell) {
+        flush();
+        row?.push(cell.join(' ').replace(/\|/g, '\\|'));
+        cell = null;
+      }
+    }
+    // Inline formatting tags (strong, em, a, sup, img...) are dropped, their text is kept
+  }
+
+  flush();
+
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Extract structured text from a .docx file using mammoth
+export async function extractTextFromDocx(buffer: Buffer): Promise<string> {
+  const result = await mammoth.convertToHtml(
+    { buffer },
+    {
+      // Images are irrelevant for question answering, skip embedding them as data URIs
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' }))
+    }
+  );
+
+  result.messages
+    .filter(message => message.type === 'error')
+    .forEach(message => console.warn('DOCX conversion issue:', message.message));
+
+  return htmlToStructuredText(result.value);
+}
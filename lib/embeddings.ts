@@ -0,0 +1,227 @@
+import { HfInference } from '@huggingface/inference';
+import { tokenize } from './bm25';
+
+/**
+ * Turns text into fixed-size vectors for semantic retrieval.
+ * Document and query embeddings may differ for asymmetric models.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+// Scale a vector to unit length so inner product equals cosine similarity
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+// Cosine similarity of two vectors of the same length
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Average token-level vectors into a single sentence vector
+function meanPool(output: unknown): number[] {
+  if (!Array.isArray(output) || output.length === 0) {
+    throw new Error('Empty embedding returned');
+  }
+  if (typeof output[0] === 'number') {
+    return output as number[];
+  }
+
+  // Unwrap [1, tokens, dims] down to [tokens, dims]
+  let rows = output as unknown[];
+  while (Array.isArray(rows[0]) && Array.isArray((rows[0] as unknown[])[0])) {
+    rows = rows[0] as unknown[];
+  }
+
+  const vectors = rows as number[][];
+  const pooled = new Array(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => { pooled[i] += value; });
+  }
+  return pooled.map(value => value / vectors.length);
+}
+
+/**
+ * Sentence embeddings from the HuggingFace Inference API
+ */
+export class HuggingFaceEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private readonly client: HfInference;
+  private readonly model: string;
+  private readonly batchSize: number;
+
+  constructor(options: { apiKey?: string; model?: string; batchSize?: number } = {}) {
+    this.model = options.model || 'sentence-transformers/all-MiniLM-L6-v2';
+    this.name = `huggingface:${this.model}`;
+    this.client = new HfInference(options.apiKey);
+    this.batchSize = options.batchSize || 32;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const output = await this.client.featureExtraction({ model: this.model, inputs: batch });
+
+      // A batch returns one entry per input; a single input may come back unwrapped
+      const entries = batch.length === 1 && typeof (output as unknown[])[0] === 'number' ? [output] : output;
+      vectors.push(...(entries as unknown[]).map(meanPool).map(normalizeVector));
+    }
+
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+}
+
+/**
+ * Embeddings from any server exposing the OpenAI `/embeddings` endpoint
+ * (OpenAI, Azure-compatible proxies, Ollama, LM Studio, vLLM...)
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly model: string;
+  private readonly batchSize: number;
+
+  constructor(options: { baseUrl?: string; apiKey?: string; model?: string; batchSize?: number } = {}) {
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || 'text-embedding-3-small';
+    this.name = `openai:${this.model}`;
+    this.batchSize = options.batchSize || 64;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: this.model, input: batch })
+      });
+
+      if (!response.ok) {
+        const message = await response.text().catch(() => '');
+        throw new Error(`Embedding request failed with status ${response.status}: ${message.slice(0, 200)}`);
+      }
+
+      const result = await response.json();
+      const data: { index: number; embedding: number[] }[] = result.data || [];
+      data.sort((a, b) => a.index - b.index);
+      vectors.push(...data.map(item => normalizeVector(item.embedding)));
+    }
+
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic local embedder using feature hashing of terms and character
+ * trigrams. No network or model download, so it works offline and in tests;
+ * trigrams give partial credit to related word forms ("configure"/"configuration").
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+
+  constructor(dimensions = 384) {
+    this.dimensions = dimensions;
+    this.name = `hash:${dimensions}`;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+
+    // Hash sign spreads collisions out instead of letting them pile up
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      vector[hash % this.dimensions] += (hash & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    for (const term of tokenize(text)) {
+      addFeature(`w:${term}`, 1);
+      const padded = `^${term}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`g:${padded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+}
+
+/**
+ * Pick the embedding provider from the environment:
+ * EMBEDDING_PROVIDER = huggingface | openai | hash. Without it, HuggingFace is
+ * used when an API key is configured, otherwise the local hashing embedder.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+  const huggingFaceKey = process.env.HUGGINGFACEHUB_API_KEY;
+
+  if (provider === 'openai') {
+    return new OpenAICompatibleEmbeddingProvider({
+      baseUrl: process.env.EMBEDDING_API_BASE_URL,
+      apiKey: process.env.EMBEDDING_API_KEY,
+      model: process.env.EMBEDDING_MODEL
+    });
+  }
+
+  if (provider === 'huggingface' || (!provider && huggingFaceKey)) {
+    return new HuggingFaceEmbeddingProvider({
+      apiKey: huggingFaceKey,
+      model: process.env.EMBEDDING_MODEL
+    });
+  }
+
+  if (provider && provider !== 'hash') {
+    console.warn(`Unknown EMBEDDING_PROVIDER "${provider}", using local hashing embeddings`);
+  }
+  return new HashingEmbeddingProvider();
+}
@@ -0,0 +1,636 @@
+import { Document } from '@langchain/core/documents';
+import { Citation } from '@/app/types/chat';
+import {
+  ExtractedField,
+  ExtractionMethod,
+  ExtractionResult,
+  FieldType,
+  FieldValue,
+  MoneyValue,
+  SchemaField
+} from '@/app/types/extract';
+import { ChunkMetadata } from './chunking';
+import { Bm25Index, tokenize } from './bm25';
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings';
+import { LlmProvider } from './llm';
+import { findPageRange } from './pages';
+import { buildExtractPrompt } from './prompts';
+import { FusedChunk, rankDocumentChunks, RetrievalOptions } from './retrieval';
+
+export const FIELD_TYPES: FieldType[] = ['text', 'number', 'money', 'date', 'email', 'boolean'];
+
+const MAX_FIELDS = 30;
+const CHUNKS_PER_FIELD = 5; // Top-ranked chunks searched for each field's value
+const LLM_CHUNKS_PER_FIELD = 2; // Of those, how many are given to the LLM
+const MAX_LLM_PASSAGES = 10;
+const MAX_VALUES = 10; // Values kept for `multiple` fields
+const MAX_TEXT_LENGTH = 120; // Longer text after a label is a sentence, not a value
+const LABEL_DISTANCE = 40; // Values within this many characters after their label belong to it
+const MAX_CONFIDENCE = 0.95;
+
+// A stored or uploaded document to extract from, with its chunks and (for stored documents) their embeddings
+export interface ExtractionInput {
+  documentId?: string;
+  source: string;
+  chunks: Document<ChunkMetadata>[];
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>;
+}
+
+export interface ExtractOptions {
+  retrieval: RetrievalOptions;
+  llm?: LlmProvider | null; // Without one, values come from patterns and labels alone
+  signal?: AbortSignal;
+}
+
+// A line or sentence of a chunk, with its offset in the document's text
+interface Segment {
+  text: string;
+  start: number;
+  chunk: Document<ChunkMetadata>;
+  rank: number; // Rank of the chunk for the field being extracted
+}
+
+// A value found in a piece of text, with its offsets in that text
+export interface ValueMatch {
+  value: FieldValue;
+  start: number;
+  end: number;
+}
+
+// A possible value of a field and the segment it was read from
+interface Candidate {
+  value: FieldValue;
+  segment: Segment;
+  confidence: number;
+  method: ExtractionMethod;
+}
+
+/**
+ * Check a schema sent by the client. Types default to text; names must be
+ * unique since they key the extracted data.
+ */
+export function parseSchema(value: unknown): { fields: SchemaField[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'Provide a schema: a list of fields, each with a name and a type' };
+  }
+  if (value.length > MAX_FIELDS) {
+    return { error: `A schema can have at most ${MAX_FIELDS} fields` };
+  }
+
+  const fields: SchemaField[] = [];
+  for (const field of value) {
+    const name = typeof field?.name === 'string' ? field.name.trim() : '';
+    if (!name) return { error: 'Every schema field needs a name' };
+    if (fields.some(existing => existing.name === name)) return { error: `Duplicate schema field: ${name}` };
+
+    const type = field.type ?? 'text';
+    if (!FIELD_TYPES.includes(type)) {
+      return { error: `Unknown type for ${name}: ${type}. Use one of ${FIELD_TYPES.join(', ')}` };
+    }
+
+    const description = typeof field.description === 'string' ? field.description.trim() : '';
+    fields.push({
+      name,
+      type,
+      ...(description ? { description } : {}),
+      ...(field.multiple === true ? { multiple: true } : {})
+    });
+  }
+  return { fields };
+}
+
+// "invoiceNumber" or "invoice_number" -> "invoice number"
+function humanize(name: string): string {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_\-.]+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+// Collect every match of a global regex, parsed; parsers return null to skip a match
+function matchAll(
+  text: string,
+  regex: RegExp,
+  parse: (match: RegExpExecArray) => FieldValue | null
+): ValueMatch[] {
+  const matches: ValueMatch[] = [];
+  let match;
+  regex.lastIndex = 0;
+  while ((match = regex.exec(text)) !== null) {
+    const value = parse(match);
+    if (value !== null) matches.push({ value, start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+}
+
+// Keep the earliest of overlapping matches (patterns are tried most specific first)
+function dropOverlaps(matches: ValueMatch[]): ValueMatch[] {
+  const kept: ValueMatch[] = [];
+  for (const match of matches) {
+    if (!kept.some(other => match.start < other.end && other.start < match.end)) kept.push(match);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+export const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// A valid calendar date as YYYY-MM-DD, or null
+export function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export const monthNumber = (name: string) =>
+  ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Dates written as 2024-03-15, 15/03/2024 or 3/15/24, March 15, 2024 or
+ * 15 March 2024. Numeric dates are read month first unless the first number
+ * can only be a day.
+ */
+export function findDates(text: string): ValueMatch[] {
+  return dropOverlaps([
+    ...matchAll(text, /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, m => isoDate(+m[1], +m[2], +m[3])),
+    ...matchAll(text, /\b(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})\b/g, m =>
+      +m[1] > 12 ? isoDate(+m[4], +m[3], +m[1]) : isoDate(+m[4], +m[1], +m[3])
+    ),
+    ...matchAll(text, new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'), m =>
+      isoDate(+m[3], monthNumber(m[1]), +m[2])
+    ),
+    ...matchAll(text, new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\.?,?\\s+(\\d{4})\\b`, 'gi'), m =>
+      isoDate(+m[3], monthNumber(m[2]), +m[1])
+    )
+  ]);
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+const CURRENCY_CODES = 'USD|EUR|GBP|JPY|CAD|AUD|NZD|CHF|CNY|INR';
+const AMOUNT_PATTERN = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+
+const parseAmount = (amount: string) => Number(amount.replace(/,/g, ''));
+
+// Amounts with a currency symbol or code: $1,200.50, EUR 300, 45.00 GBP
+export function findMoney(text: string): ValueMatch[] {
+  const regex = new RegExp(
+    `(?:([$€£¥₹])\\s?|\\b(${CURRENCY_CODES})\\s?)(-?(?:${AMOUNT_PATTERN}))|\\b(-?(?:${AMOUNT_PATTERN}))\\s?(${CURRENCY_CODES})\\b`,
+    'g'
+  );
+  return matchAll(text, regex, m => {
+    const amount = parseAmount(m[3] ?? m[4]);
+    const currency = m[1] ? CURRENCY_SYMBOLS[m[1]] : (m[2] ?? m[5]);
+    return Number.isFinite(amount) ? { amount, currency } : null;
+  });
+}
+
+// Standalone numbers, not parts of codes like INV-2024-001 or dates like 3/15/24
+function findNumbers(text: string): ValueMatch[] {
+  return matchAll(text, /-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?%?/g, m => {
+    const before = text[m.index - 1] || ' ';
+    const after = text[m.index + m[0].length] || ' ';
+    if (/[\p{L}\p{N}/\-.,]/u.test(before) || /[\p{L}\p{N}/\-]/u.test(after)) return null;
+    if ((after === '.' || after === ',') && /\d/.test(text[m.index + m[0].length + 1] || '')) return null;
+    const number = parseAmount(m[0].replace('%', ''));
+    return Number.isFinite(number) ? number : null;
+  });
+}
+
+function findEmails(text: string): ValueMatch[] {
+  return matchAll(text, /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, m => m[0].toLowerCase());
+}
+
+function findBooleans(text: string): ValueMatch[] {
+  return matchAll(text, /\b(yes|no|true|false|y|n|checked|unchecked|none)\b|(\[x\]|☑|✓|✔)|(\[ \]|☐)/gi, m => {
+    if (m[2]) return true;
+    if (m[3]) return false;
+    return ['yes', 'true', 'y', 'checked'].includes(m[1].toLowerCase());
+  });
+}
+
+/**
+ * Values of a type in a piece of text. Text fields have no pattern; they are
+ * read from after their label instead. Bare numbers count as money only where
+ * `bare` is set (right after the field's label).
+ */
+function findValues(type: FieldType, text: string, bare = false): ValueMatch[] {
+  switch (type) {
+    case 'date': return findDates(text);
+    case 'email': return findEmails(text);
+    case 'number': return findNumbers(text);
+    case 'boolean': return findBooleans(text);
+    case 'money': {
+      const money = findMoney(text);
+      return money.length > 0 || !bare
+        ? money
+        : findNumbers(text).map(match => ({ ...match, value: { amount: match.value as number } }));
+    }
+    case 'text': return [];
+  }
+}
+
+// Where a field's label appears in a segment, and how much of the label it covers
+interface LabelMatch {
+  start: number;
+  end: number;
+  coverage: number; // Share of the label's terms present
+}
+
+/**
+ * The run of label words in a segment that covers the most label terms. A
+ * single stop word may sit inside a run, as in "date of issue", and stop
+ * words of the label itself extend it, as in "bill to".
+ */
+function findLabel(text: string, labelTerms: Set<string>, labelWords: Set<string>): LabelMatch | null {
+  if (labelTerms.size === 0) return null;
+
+  const wordRegex = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+  let best: LabelMatch | null = null;
+  let run: { start: number; end: number; terms: Set<string>; gap: boolean } | null = null;
+
+  const closeRun = () => {
+    if (run && (!best || run.terms.size / labelTerms.size > best.coverage)) {
+      best = { start: run.start, end: run.end, coverage: run.terms.size / labelTerms.size };
+    }
+    run = null;
+  };
+
+  let match;
+  while ((match = wordRegex.exec(text)) !== null) {
+    const term = tokenize(match[0])[0];
+    if (term && labelTerms.has(term)) {
+      const end = match.index + match[0].length;
+      if (run) {
+        run.end = end;
+        run.terms.add(term);
+        run.gap = false;
+      } else {
+        run = { start: match.index, end, terms: new Set([term]), gap: false };
+      }
+    } else if (run && labelWords.has(match[0].toLowerCase())) {
+      run.end = match.index + match[0].length;
+    } else if (run && !term && !run.gap) {
+      run.gap = true;
+    } else {
+      closeRun();
+    }
+  }
+  closeRun();
+
+  return best;
+}
+
+// Text following a label, e.g. "INV-2024-001" in "Invoice number: INV-2024-001 | Due: ..."
+function textAfter(text: string, position: number): string {
+  const rest = text
+    .slice(position)
+    .replace(/^(?:\s*(?:[:#=–—-]|\bis\b|\bare\b|\bwas\b|\bno\.?(?=\s)))*\s*/i, '')
+    .split(/\s[|•]\s|;|\t/)[0]
+    .replace(/[.,]$/, '')
+    .trim();
+  return rest.length <= MAX_TEXT_LENGTH ? rest : '';
+}
+
+// Split a list of names written as "A, B and C"
+function splitList(text: string): string[] {
+  return text.split(/,\s*(?:and\s+)?|\s+and\s+|\s*&\s*(?=[A-Z])/).map(item => item.trim()).filter(Boolean);
+}
+
+// Lines of a chunk, with long lines split into sentences
+function segmentChunk(chunk: Document<ChunkMetadata>, rank: number): Segment[] {
+  const segments: Segment[] = [];
+  const lineRegex = /[^\n]+/g;
+  let line;
+  while ((line = lineRegex.exec(chunk.pageContent)) !== null) {
+    let offset = 0;
+    for (const part of line[0].split(/([.!?])\s+(?=["“(]?[A-Z])/)) {
+      // The split keeps the terminal punctuation as its own part; put it back on its sentence
+      if (/^[.!?]$/.test(part) && segments.length > 0) {
+        segments[segments.length - 1].text += part;
+        offset += part.length;
+        continue;
+      }
+      const local = line[0].indexOf(part, offset);
+      offset = local + part.length;
+      const text = part.trim();
+      if (text) {
+        segments.push({ text, start: chunk.metadata.start + line.index + local + part.indexOf(text), chunk, rank });
+      }
+    }
+  }
+  return segments;
+}
+
+// Identity of a value, so the same value found twice counts once
+function valueKey(value: FieldValue): string {
+  return typeof value === 'string' ? value.toLowerCase() : JSON.stringify(value);
+}
+
+/**
+ * Candidate values of a field in one segment. Values right after the field's
+ * label are the strongest evidence; values of a distinctive type (dates,
+ * money, emails) elsewhere in a well-ranked segment count for little.
+ */
+function candidatesIn(field: SchemaField, segment: Segment, next?: Segment): Candidate[] {
+  const labelWords = new Set(humanize(field.name).split(/\s+/));
+  const label = findLabel(segment.text, new Set(tokenize(humanize(field.name))), labelWords);
+  const decay = 1 - 0.05 * segment.rank;
+  const candidate = (value: FieldValue, confidence: number, method: ExtractionMethod, from = segment): Candidate =>
+    ({ value, segment: from, confidence: confidence * decay, method });
+
+  if (field.type === 'text') {
+    if (!label) return [];
+    const after = textAfter(segment.text, label.end);
+    // "Bill to:" on its own line is followed by its value on the next one
+    const value = after || (next && next.chunk === segment.chunk && next.text.length <= MAX_TEXT_LENGTH ? next.text : '');
+    if (!value) return [];
+
+    const from = after ? segment : next!;
+    const confidence = (after ? 0.4 : 0.35) + 0.4 * label.coverage;
+    const values = field.multiple ? splitList(value) : [value];
+    return values.map(item => candidate(item, confidence, 'heuristic', from));
+  }
+
+  const afterLabel = label ? findValues(field.type, segment.text.slice(label.end), true) : [];
+  if (label && afterLabel.length > 0 && afterLabel[0].start <= LABEL_DISTANCE) {
+    const matches = field.multiple ? afterLabel : [afterLabel[0]];
+    return matches.map(match => candidate(match.value, 0.5 + 0.4 * label.coverage, 'pattern'));
+  }
+
+  const matches = findValues(field.type, segment.text);
+  if (label) {
+    return matches.map(match => candidate(match.value, 0.3 + 0.25 * label.coverage, 'pattern'));
+  }
+  if (field.type === 'date' || field.type === 'money' || field.type === 'email') {
+    return matches.map(match => candidate(match.value, 0.2, 'pattern'));
+  }
+  return [];
+}
+
+/**
+ * Merge candidates with the same value: each sighting is independent
+ * evidence, so confidences combine as a noisy-or. The first sighting with the
+ * highest confidence stays as the citation.
+ */
+function mergeCandidates(candidates: Candidate[]): Candidate[] {
+  const merged = new Map<string, { best: Candidate; doubt: number }>();
+  for (const candidate of candidates) {
+    const key = valueKey(candidate.value);
+    const entry = merged.get(key);
+    if (!entry) {
+      merged.set(key, { best: candidate, doubt: 1 - candidate.confidence });
+    } else {
+      entry.doubt *= 1 - candidate.confidence;
+      if (candidate.confidence > entry.best.confidence) entry.best = candidate;
+    }
+  }
+  return Array.from(merged.values()).map(({ best, doubt }) => ({
+    ...best,
+    confidence: Math.min(MAX_CONFIDENCE, 1 - doubt)
+  }));
+}
+
+// The citation for a value read from a segment
+function toCitation(segment: Segment, source: string, confidence: number): Citation {
+  const end = segment.start + segment.text.length;
+  return {
+    text: segment.text,
+    source: segment.chunk.metadata.source || source,
+    documentId: segment.chunk.metadata.documentId,
+    start: segment.start,
+    end,
+    ...findPageRange(segment.chunk.metadata.pageSpans, segment.start, end),
+    score: Number(confidence.toFixed(4))
+  };
+}
+
+// Turn merged candidates into a field: the best value, or for `multiple` fields every plausible one in document order
+function toField(field: SchemaField, candidates: Candidate[], source: string): ExtractedField {
+  const ranked = mergeCandidates(candidates).sort((a, b) => b.confidence - a.confidence);
+  if (ranked.length === 0) {
+    return { name: field.name, type: field.type, value: null, citations: [], confidence: 0 };
+  }
+
+  const chosen = field.multiple
+    ? ranked.filter(candidate => candidate.confidence >= ranked[0].confidence * 0.5)
+      .slice(0, MAX_VALUES)
+      .sort((a, b) => a.segment.start - b.segment.start)
+    : [ranked[0]];
+  const confidence = Math.min(...chosen.map(candidate => candidate.confidence));
+
+  return {
+    name: field.name,
+    type: field.type,
+    value: field.multiple ? chosen.map(candidate => candidate.value) : chosen[0].value,
+    citations: chosen.map(candidate => toCitation(candidate.segment, source, candidate.confidence)),
+    confidence: Number(confidence.toFixed(2)),
+    method: chosen.some(candidate => candidate.method === 'heuristic') ? 'heuristic' : chosen[0].method
+  };
+}
+
+// Coerce a value given by the LLM to the field's type, or null if it doesn't parse
+function normalizeValue(type: FieldType, value: unknown): FieldValue | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'text':
+      return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || null : null;
+    case 'number':
+      if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+      return typeof value === 'string' ? (findNumbers(value)[0]?.value ?? null) : null;
+    case 'money': {
+      if (typeof value === 'number') return { amount: value };
+      if (typeof value === 'string') {
+        return (findMoney(value)[0] ?? findValues('money', value, true)[0])?.value ?? null;
+      }
+      const { amount, currency } = value as Partial<MoneyValue>;
+      if (typeof amount !== 'number' || !Number.isFinite(amount)) return null;
+      return typeof currency === 'string' && currency.trim() ? { amount, currency: currency.trim().toUpperCase() } : { amount };
+    }
+    case 'date':
+      return typeof value === 'string' ? (findDates(value)[0]?.value ?? null) : null;
+    case 'email':
+      return typeof value === 'string' ? (findEmails(value)[0]?.value ?? null) : null;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return typeof value === 'string' ? (findBooleans(value)[0]?.value ?? null) : null;
+  }
+}
+
+// Whether a segment states a value, comparing parsed values so "$1,200" supports { amount: 1200 }
+function supports(type: FieldType, value: FieldValue, text: string): boolean {
+  if (type === 'text') return text.toLowerCase().includes(String(value).toLowerCase());
+  const key = valueKey(value);
+  return findValues(type, text, true).some(match =>
+    valueKey(match.value) === key ||
+    (type === 'money' && (match.value as MoneyValue).amount === (value as MoneyValue).amount)
+  );
+}
+
+// Pull the JSON object out of the model's reply, which may be wrapped in prose or a code fence
+function parseJsonObject(text: string): Record<string, unknown> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('The extraction had no JSON object');
+  const parsed = JSON.parse(text.slice(start, end + 1));
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('The extraction was not a JSON object');
+  }
+  return parsed;
+}
+
+/**
+ * Fields read by the LLM from the top passages. Each value is checked against
+ * the text: one found in the passage the model cited is well supported, one
+ * found only elsewhere less so, and one not found at all gets low confidence
+ * and no citation. Fields the model leaves out are not returned.
+ */
+async function extractWithLlm(
+  fields: SchemaField[],
+  passages: Document<ChunkMetadata>[],
+  input: ExtractionInput,
+  llm: LlmProvider,
+  signal?: AbortSignal
+): Promise<Map<string, ExtractedField>> {
+  const messages = buildExtractPrompt(fields, passages.map(chunk => ({
+    text: chunk.pageContent,
+    source: chunk.metadata.source || input.source,
+    page: chunk.metadata.page,
+    pageEnd: chunk.metadata.pageEnd
+  })));
+  const reply = parseJsonObject(await llm.generate(messages, { signal, maxTokens: 1024 }));
+  const segments = passages.map(chunk => segmentChunk(chunk, 0));
+
+  const extracted = new Map<string, ExtractedField>();
+  for (const field of fields) {
+    const answer = reply[field.name];
+    if (answer === null || answer === undefined) continue;
+
+    const { value: rawValue, passage } = typeof answer === 'object' && !Array.isArray(answer) && 'value' in answer
+      ? answer as { value: unknown; passage?: unknown }
+      : { value: answer, passage: undefined };
+    const rawValues = field.multiple ? (Array.isArray(rawValue) ? rawValue : [rawValue]) : [rawValue];
+    const values = rawValues
+      .map(value => normalizeValue(field.type, value))
+      .filter((value): value is FieldValue => value !== null)
+      .slice(0, MAX_VALUES);
+    if (values.length === 0) continue;
+
+    const cited = typeof passage === 'number' ? segments[passage - 1] || [] : [];
+    const citations: Citation[] = [];
+    const confidences = values.map(value => {
+      const inCited = cited.find(segment => supports(field.type, value, segment.text));
+      const elsewhere = inCited || segments.flat().find(segment => supports(field.type, value, segment.text));
+      const confidence = inCited ? 0.9 : elsewhere ? 0.8 : 0.3;
+      if (elsewhere) citations.push(toCitation(elsewhere, input.source, confidence));
+      return confidence;
+    });
+
+    extracted.set(field.name, {
+      name: field.name,
+      type: field.type,
+      value: field.multiple ? values : values[0],
+      citations,
+      confidence: Math.min(...confidences),
+      method: 'llm'
+    });
+  }
+  return extracted;
+}
+
+/**
+ * Extract the fields of a schema from a document. Each field is searched for
+ * separately with the chat retrieval pipeline, then read from the top chunks
+ * with type patterns and "label: value" heuristics. With an LLM provider the
+ * model fills in the schema from the same passages and its values are checked
+ * against the text; fields it misses, or all fields if it fails, keep the
+ * extractive values.
+ */
+export async function extractFields(
+  fields: SchemaField[],
+  input: ExtractionInput,
+  options: ExtractOptions
+): Promise<ExtractionResult> {
+  const { chunks } = input;
+  const index = new Bm25Index(chunks.map(chunk => chunk.pageContent));
+
+  let provider: EmbeddingProvider | null = null;
+  if (options.retrieval.mode !== 'lexical') {
+    try {
+      provider = getEmbeddingProvider();
+    } catch (error) {
+      console.error('No embedding provider, using BM25 ranking:', error);
+    }
+  }
+
+  const rankings: FusedChunk[][] = [];
+  const extractive: ExtractedField[] = [];
+  for (const field of fields) {
+    if (options.signal?.aborted) break;
+
+    const label = humanize(field.name);
+    const query = field.description ? `${label} ${field.description}` : label;
+    const terms = Array.from(new Set(tokenize(query)));
+
+    const ranked = (await rankDocumentChunks(query, terms, chunks, index, provider, options.retrieval, input.embedChunks))
+      .slice(0, CHUNKS_PER_FIELD);
+    rankings.push(ranked);
+
+    // Overlapping chunks repeat lines; keep each line once, from its best-ranked chunk
+    const seen = new Set<number>();
+    const segments = ranked
+      .flatMap(({ index: chunkIndex }, rank) => segmentChunk(chunks[chunkIndex], rank))
+      .filter(segment => {
+        if (seen.has(segment.start)) return false;
+        seen.add(segment.start);
+        return true;
+      });
+    const candidates = segments.flatMap((segment, i) => candidatesIn(field, segment, segments[i + 1]));
+    extractive.push(toField(field, candidates, input.source));
+  }
+
+  let method: ExtractionResult['method'] = 'extractive';
+  let fromLlm = new Map<string, ExtractedField>();
+
+  if (options.llm && chunks.length > 0) {
+    // Interleave the fields' top chunks so every field gets some context
+    const passageIndexes: number[] = [];
+    for (let rank = 0; rank < LLM_CHUNKS_PER_FIELD; rank++) {
+      for (const ranked of rankings) {
+        const chunkIndex = ranked[rank]?.index;
+        if (chunkIndex !== undefined && !passageIndexes.includes(chunkIndex)) passageIndexes.push(chunkIndex);
+      }
+    }
+    const passages = (passageIndexes.length > 0 ? passageIndexes : [0])
+      .slice(0, MAX_LLM_PASSAGES)
+      .map(chunkIndex => chunks[chunkIndex]);
+
+    try {
+      fromLlm = await extractWithLlm(fields, passages, input, options.llm, options.signal);
+      method = 'llm';
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('LLM extraction failed, using pattern extraction:', error);
+    }
+  }
+
+  // Citations are numbered across fields. A value the LLM gave that isn't in the text loses to one that is
+  let marker = 0;
+  const extracted = fields.map((field, i) => {
+    const empty: ExtractedField = { name: field.name, type: field.type, value: null, citations: [], confidence: 0 };
+    const llmField = fromLlm.get(field.name);
+    const unsupported = llmField && llmField.citations.length < (Array.isArray(llmField.value) ? llmField.value.length : 1);
+    const fallback = extractive[i];
+    const result = llmField && (!unsupported || !fallback || fallback.value === null) ? llmField : fallback || empty;
+    return { ...result, citations: result.citations.map(citation => ({ ...citation, marker: ++marker })) };
+  });
+
+  return {
+    documentId: input.documentId,
+    source: input.source,
+    fields: extracted,
+    data: Object.fromEntries(extracted.map(field => [field.name, field.value])),
+    method
+  };
+}
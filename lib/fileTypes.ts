@@ -0,0 +1,27 @@
+import { UploadedFileData } from '@/app/types/document';
+
+// MIME types for Word documents
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+export const LEGACY_DOC_MIME_TYPE = 'application/msword';
+
+// Check if a file is a modern Word document (.docx)
+export function isDocxFile(name: string, type: string): boolean {
+  return type === DOCX_MIME_TYPE || name.toLowerCase().endsWith('.docx');
+}
+
+// Check if a file is a legacy binary Word document (.doc), which mammoth cannot read
+export function isLegacyDocFile(name: string, type: string): boolean {
+  return type === LEGACY_DOC_MIME_TYPE || name.toLowerCase().endsWith('.doc');
+}
+
+// Message shown when a legacy .doc file is uploaded
+export function legacyDocMessage(name: string): string {
+  return `"${name}" is a legacy Word (.doc) file, which is not supported. Please save it as .docx or PDF and upload it again.`;
+}
+
+// Check that a request entry is an uploaded file with its name, type and base64 data
+export function isUploadedFile(value: unknown): value is UploadedFileData {
+  if (!value || typeof value !== 'object') return false;
+  const { name, type, data } = value as Record<string, unknown>;
+  return typeof name === 'string' && typeof type === 'string' && typeof data === 'string';
+}
@@ -0,0 +1,136 @@
+import { Document } from '@langchain/core/documents';
+import { FocusAction, FocusMode, FocusRegion } from '@/app/types/chat';
+import { ChunkMetadata } from './chunking';
+import { findQuote } from './citations';
+import { findPageRange } from './pages';
+import { EmbeddingProvider } from './embeddings';
+import { RankedChunk } from './retrieval';
+
+// Characters on each side of a selection that count as its surroundings
+const FOCUS_CONTEXT = 1500;
+
+// Longest part of a selection quoted in the question
+const MAX_QUOTE_LENGTH = 1000;
+
+const FOCUS_ACTIONS: FocusAction[] = ['ask', 'explain', 'related'];
+const FOCUS_MODES: FocusMode[] = ['restrict', 'boost'];
+
+// Where a selected passage is in the loaded documents
+export interface FocusSpan {
+  source: string;
+  documentId?: string;
+  start: number; // Offsets in the document's extracted text
+  end: number;
+  page: number;
+  pageEnd?: number;
+}
+
+function isOffset(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Validate a focus region sent by the client; null when it isn't usable
+export function parseFocusRegion(value: unknown): FocusRegion | null {
+  if (!value || typeof value !== 'object') return null;
+  const focus = value as Record<string, unknown>;
+  if (typeof focus.text !== 'string' || !focus.text.trim() || typeof focus.source !== 'string') return null;
+
+  const hasOffsets = isOffset(focus.start) && isOffset(focus.end) && focus.end > focus.start;
+  return {
+    text: focus.text.trim(),
+    source: focus.source,
+    documentId: typeof focus.documentId === 'string' ? focus.documentId : undefined,
+    page: isOffset(focus.page) && focus.page > 0 ? focus.page : undefined,
+    start: hasOffsets ? focus.start as number : undefined,
+    end: hasOffsets ? focus.end as number : undefined,
+    action: FOCUS_ACTIONS.find(action => action === focus.action),
+    mode: FOCUS_MODES.find(mode => mode === focus.mode)
+  };
+}
+
+// Explanations stay within the selection's surroundings; other questions only favour them
+export function focusMode(focus: FocusRegion): FocusMode {
+  return focus.mode ?? (focus.action === 'explain' ? 'restrict' : 'boost');
+}
+
+function isSameDocument(metadata: ChunkMetadata, focus: { source: string; documentId?: string }): boolean {
+  return focus.documentId ? metadata.documentId === focus.documentId : metadata.source === focus.source;
+}
+
+// Characters between a chunk and a span of the same document (0 when they overlap)
+function distanceTo(metadata: ChunkMetadata, span: FocusSpan): number {
+  return Math.max(0, metadata.start - span.end, span.start - metadata.end);
+}
+
+/**
+ * Find a selected passage in the chunks of its document. Offsets sent with the
+ * selection are used when they fall inside the document; otherwise the text is
+ * looked up, starting with the chunks on the selected page.
+ */
+export function locateFocus(chunks: Document<ChunkMetadata>[], focus: FocusRegion): FocusSpan | null {
+  const candidates = chunks.filter(chunk => isSameDocument(chunk.metadata, focus));
+  if (candidates.length === 0) return null;
+  const { source, documentId, pageSpans } = candidates[0].metadata;
+  const span = (start: number, end: number): FocusSpan => ({
+    source,
+    documentId,
+    start,
+    end,
+    ...findPageRange(pageSpans, start, end)
+  });
+
+  const { start, end, page } = focus;
+  if (start !== undefined && end !== undefined
+    && candidates.some(chunk => chunk.metadata.start < end && chunk.metadata.end > start)) {
+    return span(start, end);
+  }
+
+  const onPage = (chunk: Document<ChunkMetadata>) =>
+    page !== undefined && chunk.metadata.page <= page && (chunk.metadata.pageEnd ?? chunk.metadata.page) >= page;
+  const ordered = [...candidates.filter(onPage), ...candidates.filter(chunk => !onPage(chunk))];
+  for (const chunk of ordered) {
+    const found = findQuote(chunk.pageContent, focus.text);
+    if (found) return span(chunk.metadata.start + found.start, chunk.metadata.start + found.end);
+  }
+  return null;
+}
+
+// Chunks overlapping a span or its surroundings, nearest first
+export function rankFocusChunks(chunks: Document<ChunkMetadata>[], span: FocusSpan, context = FOCUS_CONTEXT): RankedChunk[] {
+  const ranked: RankedChunk[] = [];
+  chunks.forEach((chunk, index) => {
+    if (!isSameDocument(chunk.metadata, span)) return;
+    const distance = distanceTo(chunk.metadata, span);
+    if (distance <= context) ranked.push({ index, score: 1 / (1 + distance / 100) });
+  });
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+// Only the chunks around a span, with their embeddings, for questions restricted to a selection
+export function restrictToFocus(
+  chunks: Document<ChunkMetadata>[],
+  span: FocusSpan,
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>,
+  context = FOCUS_CONTEXT
+): { chunks: Document<ChunkMetadata>[]; embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]> } {
+  const keep = chunks.map(chunk => isSameDocument(chunk.metadata, span) && distanceTo(chunk.metadata, span) <= context);
+  return {
+    chunks: chunks.filter((_, i) => keep[i]),
+    embedChunks: embedChunks && (async provider => (await embedChunks(provider)).filter((_, i) => keep[i]))
+  };
+}
+
+// Whether a passage of a document overlaps the selected span
+export function overlapsFocus(span: FocusSpan, metadata: ChunkMetadata, start: number, end: number): boolean {
+  return isSameDocument(metadata, span) && start < span.end && end > span.start;
+}
+
+// The question as searched and asked, with the selected passage quoted so both are scoped to it
+export function focusedQuestion(question: string, focus: FocusRegion, span?: FocusSpan | null): string {
+  const quote = focus.text.length > MAX_QUOTE_LENGTH
+    ? `${focus.text.slice(0, MAX_QUOTE_LENGTH).replace(/\s+\S*$/, '')}...`
+    : focus.text;
+  const page = span?.page ?? focus.page;
+  const location = page ? `${focus.source}, page ${page}` : focus.source;
+  return `${question}\n\nSelected passage (${location}): "${quote.replace(/\s+/g, ' ')}"`;
+}
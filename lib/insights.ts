@@ -0,0 +1,487 @@
+import { Citation } from '@/app/types/chat';
+import { MoneyValue } from '@/app/types/extract';
+import { DefinedTerm, DocumentInsights, EntityType, KeyPhrase, NamedEntity } from '@/app/types/insights';
+import { STOP_WORDS } from './bm25';
+import { isHeadingLine, isTitleLine, splitSentences } from './chunking';
+import { CitableText, sentenceCitation } from './citations';
+import { findDates, findMoney, ValueMatch } from './extract';
+
+const MAX_KEY_PHRASES = 15;
+const MIN_KEY_PHRASES = 5; // Below this, phrases used only once are listed too
+const MAX_PHRASE_WORDS = 4; // Longer runs of content words are lists or titles, not phrases
+const MAX_ENTITIES_PER_TYPE = 15;
+const MAX_GLOSSARY_TERMS = 50;
+const MAX_OCCURRENCES = 5; // Sentences cited per phrase or entity
+const MAX_TERM_LENGTH = 60;
+const MAX_DEFINITION_LENGTH = 300;
+
+// Words that split key phrases, on top of the retrieval stop words (RAKE's stoplist)
+const PHRASE_STOP_WORDS = new Set([
+  'may', 'must', 'shall', 'should', 'might', 'each', 'per', 'other', 'more', 'most', 'only', 'very',
+  'just', 'within', 'upon', 'after', 'before', 'under', 'over', 'between', 'during', 'without', 'every',
+  'both', 'either', 'neither', 'here', 'up', 'out', 'via', 'being', 'whether', 'while', 'until', 'because',
+  'however', 'therefore', 'including', 'etc', 'us', 'am', 'own', 'same', 'hereby', 'herein', 'thereof',
+  'made', 'make', 'use', 'used', 'well', 'new', 'one', 'two', 'three', 'first', 'second', 'see', 'like',
+  'many', 'much', 'least', 'less', 'further', 'following', 'above', 'below', 'there', 'where', 'unless',
+  'means', 'mean', 'include', 'includes', 'apply', 'applies', 'said', 'says', 'provided', 'given'
+]);
+
+const HONORIFIC_PATTERN = '(?:Mr|Mrs|Ms|Miss|Dr|Prof|Sir|Dame)\\.?';
+
+// Words that mark a name as an organization
+const ORGANIZATION_WORDS = new Set([
+  'inc', 'ltd', 'llc', 'llp', 'plc', 'gmbh', 'corp', 'corporation', 'company', 'co', 'group', 'holdings',
+  'bank', 'university', 'college', 'institute', 'school', 'hospital', 'department', 'ministry', 'agency',
+  'association', 'foundation', 'council', 'committee', 'board', 'team', 'traders', 'partners', 'services',
+  'solutions', 'technologies', 'systems', 'industries', 'trust', 'authority', 'office', 'commission',
+  'court', 'society', 'union', 'club', 'press', 'resources', 'limited', 'federation', 'organization',
+  'organisation', 'bureau', 'division', 'labs', 'laboratories'
+]);
+
+// Capitalized words that name documents and their parts rather than people
+const NON_NAME_WORDS = new Set([
+  'policy', 'agreement', 'contract', 'section', 'clause', 'schedule', 'appendix', 'act', 'article',
+  'chapter', 'part', 'table', 'figure', 'annex', 'exhibit', 'form', 'plan', 'program', 'programme',
+  'project', 'report', 'rules', 'terms', 'conditions', 'law', 'regulation', 'regulations', 'code',
+  'date', 'notice', 'period', 'work', 'leave', 'information', 'data', 'product', 'products'
+]);
+
+const CALENDAR_WORDS = new Set([
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+]);
+
+// Acronyms that are formats, currencies or notes rather than organizations
+const NON_ORGANIZATION_ACRONYMS = new Set([
+  'PDF', 'FAQ', 'NOTE', 'ID', 'OK', 'TBD', 'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'NZD', 'CHF', 'CNY',
+  'INR', 'AM', 'PM', 'II', 'III', 'IV', 'VI', 'VII', 'VIII', 'IX', 'XI', 'XII'
+]);
+
+const ROLE_PATTERN =
+  'ceo|cfo|cto|coo|chief|director|manager|president|vice|chair(?:man|woman|person)?|founder|co-founder|head|officer|secretary|partner|counsel|professor|owner|lead|supervisor|employee|contractor';
+
+// Context that marks a title-case name as a person: who signs, says, or holds a role
+const PERSON_BEFORE = new RegExp(`(?:\\bby|\\bdear|\\bcontact|\\battn|\\battention|\\bcc|\\b(?:${ROLE_PATTERN}))[:,]?\\s+$`, 'i');
+const PERSON_AFTER = new RegExp(
+  `^(?:,\\s+(?:the\\s+|our\\s+|a\\s+)?(?:${ROLE_PATTERN}|who)\\b|\\s+\\((?:the\\s+)?["“]?(?:${ROLE_PATTERN})\\b|\\s+(?:said|says|stated|wrote|noted|explained|added|told|signed|argued|is\\s+the\\s+(?:${ROLE_PATTERN}))\\b)`,
+  'i'
+);
+
+// Verbs that introduce a definition: "X means", "X is defined as", ...
+const DEFINITION_VERB = '(?:shall\\s+mean|means?|(?:is|are)\\s+defined\\s+as|refers?\\s+to|shall\\s+have\\s+the\\s+meaning)';
+
+// Sections whose "Term: definition" lines are definitions
+const GLOSSARY_HEADING_REGEX = /\b(definitions?|glossary|interpretation|terminology)\b/i;
+
+const isPhraseStopWord = (word: string) =>
+  STOP_WORDS.has(word.toLowerCase()) || PHRASE_STOP_WORDS.has(word.toLowerCase());
+
+// Bare word of a token, without possessives or trailing dots
+const bareWord = (word: string) => word.replace(/['’]s$/, '').replace(/\.$/, '');
+
+// Lines with their offsets in the text
+function linesOf(text: string): { text: string; start: number }[] {
+  const lines: { text: string; start: number }[] = [];
+  const lineRegex = /[^\n]+/g;
+  let match;
+  while ((match = lineRegex.exec(text)) !== null) {
+    lines.push({ text: match[0], start: match.index });
+  }
+  return lines;
+}
+
+// Citations for the sentences at the given offsets, one per sentence
+function occurrenceCitations(document: CitableText, starts: number[]): Citation[] {
+  const citations: Citation[] = [];
+  for (const start of starts) {
+    const citation = sentenceCitation(document, start);
+    if (!citations.some(other => other.start === citation.start)) citations.push(citation);
+    if (citations.length >= MAX_OCCURRENCES) break;
+  }
+  return citations;
+}
+
+/**
+ * Paragraphs used as the "documents" of TF-IDF: blocks separated by blank
+ * lines, or single lines when the text has too few blank lines
+ */
+function paragraphsOf(text: string): { start: number; end: number }[] {
+  const split = (regex: RegExp) => {
+    const spans: { start: number; end: number }[] = [];
+    let start = 0;
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+      if (match.index > start) spans.push({ start, end: match.index });
+      start = match.index + match[0].length;
+    }
+    if (start < text.length) spans.push({ start, end: text.length });
+    return spans;
+  };
+  const blocks = split(/\n\s*\n/g);
+  return blocks.length >= 3 ? blocks : split(/\n/g);
+}
+
+/**
+ * Key phrases, RAKE-style: the text is cut into runs of content words at stop
+ * words and punctuation, and each word scores its degree over its frequency
+ * in those runs. Every phrase within a run is a candidate scoring the sum of
+ * its words, weighted by TF-IDF across the document's paragraphs, so recurring
+ * phrases concentrated in some sections beat ones spread evenly through every
+ * paragraph. Phrases only ever capitalized are names, left to entities.
+ */
+function findKeyPhrases(document: CitableText): KeyPhrase[] {
+  const { text } = document;
+  const runs: string[][] = [];
+  const phrases = new Map<string, { words: string[]; surface: string; starts: number[]; inProse: boolean }>();
+
+  for (const line of linesOf(text)) {
+    const inCapitals = line.text === line.text.toUpperCase();
+    const wordRegex = /[\p{L}\p{N}][\p{L}\p{N}'’&-]*/gu;
+    let run: { word: string; start: number }[] = [];
+    const flush = () => {
+      if (run.length > MAX_PHRASE_WORDS) run = [];
+      if (run.length > 0) runs.push(run.map(w => bareWord(w.word).toLowerCase()));
+      for (let i = 0; i < run.length; i++) {
+        for (let n = 1; i + n <= run.length; n++) {
+          const part = run.slice(i, i + n);
+          if (!part.some(w => /\p{L}{3}/u.test(w.word))) continue;
+          const words = part.map(w => bareWord(w.word).toLowerCase());
+          const key = words.join(' ');
+          // Acronyms keep their capitals; lines in capitals are headings and don't count as acronyms
+          const surface = part.map(w => !inCapitals && /^\p{Lu}{2,}$/u.test(bareWord(w.word)) ? bareWord(w.word) : bareWord(w.word).toLowerCase()).join(' ');
+          const inProse = inCapitals || part.some(w => /^\p{Ll}/u.test(w.word));
+          const entry = phrases.get(key);
+          if (entry) {
+            entry.starts.push(line.start + part[0].start);
+            entry.inProse ||= inProse;
+            if (entry.surface === key) entry.surface = surface;
+          } else {
+            phrases.set(key, { words, surface, starts: [line.start + part[0].start], inProse });
+          }
+        }
+      }
+      run = [];
+    };
+
+    let word;
+    let previousEnd = 0;
+    while ((word = wordRegex.exec(line.text)) !== null) {
+      if (/\S/.test(line.text.slice(previousEnd, word.index))) flush();
+      previousEnd = word.index + word[0].length;
+      if (isPhraseStopWord(bareWord(word[0])) || /^[\p{N}.,-]+$/u.test(word[0]) || word[0].length < 2) {
+        flush();
+        continue;
+      }
+      run.push({ word: word[0], start: word.index });
+    }
+    flush();
+  }
+
+  // RAKE word scores: degree (co-occurring words, itself included) over frequency
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  for (const words of runs) {
+    for (const word of words) {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + words.length);
+    }
+  }
+
+  const paragraphs = paragraphsOf(text);
+  const candidates = Array.from(phrases.values()).filter(phrase => phrase.inProse);
+  const recurring = candidates.filter(phrase => phrase.starts.length >= 2);
+  const scored = (recurring.length >= MIN_KEY_PHRASES ? recurring : candidates)
+    .map(phrase => {
+      const rake = phrase.words.reduce((sum, word) => sum + degree.get(word)! / frequency.get(word)!, 0);
+      const paragraphCount = new Set(phrase.starts.map(start =>
+        paragraphs.findIndex(paragraph => start >= paragraph.start && start < paragraph.end)
+      )).size;
+      const tfIdf = (1 + Math.log(phrase.starts.length)) * Math.log(1 + paragraphs.length / paragraphCount);
+      return { ...phrase, score: rake * tfIdf };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  // A phrase inside (or around) a better one adds nothing
+  const chosen: typeof scored = [];
+  for (const phrase of scored) {
+    const padded = ` ${phrase.words.join(' ')} `;
+    if (chosen.some(other => {
+      const otherPadded = ` ${other.words.join(' ')} `;
+      return otherPadded.includes(padded) || padded.includes(otherPadded);
+    })) continue;
+    chosen.push(phrase);
+    if (chosen.length >= MAX_KEY_PHRASES) break;
+  }
+
+  return chosen.map(phrase => ({
+    text: phrase.surface,
+    score: Math.round(phrase.score * 100) / 100,
+    count: phrase.starts.length,
+    occurrences: occurrenceCitations(document, phrase.starts)
+  }));
+}
+
+// Dates and amounts grouped by their normalized value
+function valueEntities(
+  document: CitableText,
+  type: EntityType,
+  matches: ValueMatch[],
+  key: (value: ValueMatch['value']) => string
+): NamedEntity[] {
+  const groups = new Map<string, { match: ValueMatch; starts: number[] }>();
+  for (const match of matches) {
+    const group = groups.get(key(match.value));
+    if (group) group.starts.push(match.start);
+    else groups.set(key(match.value), { match, starts: [match.start] });
+  }
+  return Array.from(groups.values()).map(({ match, starts }) => ({
+    text: document.text.slice(match.start, match.end),
+    type,
+    value: match.value as string | MoneyValue,
+    count: starts.length,
+    occurrences: occurrenceCitations(document, starts)
+  }));
+}
+
+// A capitalized name found in running text
+interface NameMention {
+  name: string;
+  start: number;
+  honorific: boolean;
+  personCue: boolean;
+}
+
+/**
+ * Capitalized names in running text (heading and title lines are skipped).
+ * Names aren't joined across "and", which more often lists two names than
+ * makes one.
+ * Each comes with whether its context marks it as a person. Leading and trailing
+ * stop words are trimmed: "The Board of Directors" -> "Board of Directors".
+ */
+function findNameMentions(text: string): NameMention[] {
+  const mentions: NameMention[] = [];
+  const nameRegex = new RegExp(
+    `(${HONORIFIC_PATTERN}[ \\t]+)?\\p{Lu}[\\p{L}\\p{N}&'’-]*(?:(?:[ \\t]+(?:of|for|&|de|van|von))?[ \\t]+\\p{Lu}[\\p{L}\\p{N}&'’-]*)*`,
+    'gu'
+  );
+
+  for (const line of linesOf(text)) {
+    const trimmed = line.text.trim();
+    if (isTitleLine(trimmed) || isHeadingLine(trimmed) || trimmed === trimmed.toUpperCase()) continue;
+
+    let match;
+    while ((match = nameRegex.exec(line.text)) !== null) {
+      const honorific = !!match[1];
+      const nameText = match[0].slice(match[1]?.length ?? 0).replace(/['’]s$/, '').replace(/['’-]+$/, '');
+      let words = nameText.split(/\s+/);
+      while (words.length > 0 && isPhraseStopWord(words[0])) words = words.slice(1);
+      while (words.length > 0 && isPhraseStopWord(words[words.length - 1])) words = words.slice(0, -1);
+      if (words.length === 0 || words.every(word => CALENDAR_WORDS.has(word.toLowerCase()))) continue;
+
+      const name = words.join(' ');
+      const offset = match.index + match[0].indexOf(words[0], match[1]?.length ?? 0);
+      const before = line.text.slice(Math.max(0, match.index - 30), match.index);
+      const after = line.text.slice(match.index + match[0].length, match.index + match[0].length + 40);
+      mentions.push({
+        name,
+        start: line.start + offset,
+        honorific,
+        personCue: honorific || PERSON_BEFORE.test(before) || PERSON_AFTER.test(after)
+      });
+    }
+  }
+  return mentions;
+}
+
+// Whether a name could be a person's: two or three capitalized words that aren't document vocabulary
+function isPersonShaped(name: string): boolean {
+  const words = name.split(' ');
+  return words.length >= 2 && words.length <= 3 &&
+    words.every(word => /^\p{Lu}(?:\p{Ll}+(?:[-'’]\p{Lu}?\p{Ll}+)?|\.)?$/u.test(word)) &&
+    !words.some(word => NON_NAME_WORDS.has(word.toLowerCase()) || ORGANIZATION_WORDS.has(word.toLowerCase()));
+}
+
+/**
+ * People and organizations. Names containing an organization word ("Ltd",
+ * "Department", "Bank") or "&" are organizations, unless that is all they
+ * are ("the Company") or they end in document vocabulary ("Services
+ * Agreement"), and so are acronyms used more
+ * than once. A name is a person when it has an honorific, or is person-shaped
+ * and at least one mention has a person cue (a role, "signed by", "said").
+ * A surname on its own ("Ms. Anders") joins the full name it belongs to.
+ */
+function nameEntities(document: CitableText): NamedEntity[] {
+  const groups = new Map<string, { name: string; type: EntityType | null; starts: number[] }>();
+
+  for (const mention of findNameMentions(document.text)) {
+    const key = mention.name.toLowerCase();
+    const words = key.split(' ');
+    let type: EntityType | null = null;
+    const isOrganizationWord = (word: string) => ORGANIZATION_WORDS.has(word.replace(/\.$/, ''));
+    if (
+      (mention.name.includes('&') || (words.some(isOrganizationWord) && !words.every(isOrganizationWord))) &&
+      !NON_NAME_WORDS.has(words[words.length - 1])
+    ) {
+      type = 'organization';
+    } else if (/^\p{Lu}{2,6}$/u.test(mention.name) && !NON_ORGANIZATION_ACRONYMS.has(mention.name)) {
+      type = 'organization';
+    } else if (mention.honorific || (mention.personCue && isPersonShaped(mention.name))) {
+      type = 'person';
+    }
+
+    const group = groups.get(key);
+    if (group) {
+      group.starts.push(mention.start);
+      group.type = group.type || type;
+    } else {
+      groups.set(key, { name: mention.name, type, starts: [mention.start] });
+    }
+  }
+
+  // Fold surnames and unmarked mentions of a person's full name into that person
+  const people = Array.from(groups.values()).filter(group => group.type === 'person' && group.name.includes(' '));
+  groups.forEach((group, key) => {
+    if (group.type === 'organization' || people.includes(group)) return;
+    const person = people.find(p => p.name.toLowerCase() === key || p.name.toLowerCase().endsWith(` ${key}`));
+    if (person && (group.type === 'person' || !key.includes(' '))) {
+      person.starts.push(...group.starts);
+      groups.delete(key);
+    }
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.type === 'person' || (group.type === 'organization' && (group.starts.length >= 2 || !/^\p{Lu}+$/u.test(group.name))))
+    .map(group => {
+      const starts = group.starts.sort((a, b) => a - b);
+      return {
+        text: group.name,
+        type: group.type!,
+        count: starts.length,
+        occurrences: occurrenceCitations(document, starts)
+      };
+    });
+}
+
+function findEntities(document: CitableText): NamedEntity[] {
+  const entities = [
+    ...nameEntities(document),
+    ...valueEntities(document, 'date', findDates(document.text), value => String(value)),
+    ...valueEntities(document, 'amount', findMoney(document.text), value => {
+      const { amount, currency } = value as MoneyValue;
+      return `${currency ?? ''} ${amount}`;
+    })
+  ];
+
+  // Most mentioned first within each type, then by first appearance
+  const byType = new Map<EntityType, NamedEntity[]>();
+  for (const entity of entities) {
+    byType.set(entity.type, [...(byType.get(entity.type) || []), entity]);
+  }
+  return Array.from(byType.values()).flatMap(list => list
+    .sort((a, b) => b.count - a.count || (a.occurrences[0]?.start ?? 0) - (b.occurrences[0]?.start ?? 0))
+    .slice(0, MAX_ENTITIES_PER_TYPE)
+  );
+}
+
+// "Term", “Term” or an unquoted term of up to six words that doesn't start with a stop word
+function cleanTerm(raw: string, quoted: boolean): string | null {
+  const term = raw.trim().replace(/^(?:the|a|an)\s+/i, '').replace(/\s+/g, ' ');
+  if (!term || term.length > MAX_TERM_LENGTH || !/\p{L}/u.test(term)) return null;
+  if (!quoted) {
+    const words = term.split(' ');
+    if (words.length > 6 || isPhraseStopWord(words[0]) || !/^[\p{Lu}\p{N}]/u.test(term)) return null;
+  }
+  return term;
+}
+
+function cleanDefinition(raw: string): string {
+  const definition = raw.trim().replace(/[\s.;,]+$/, '').replace(/\s+/g, ' ');
+  return definition.length > MAX_DEFINITION_LENGTH
+    ? `${definition.slice(0, MAX_DEFINITION_LENGTH).replace(/\s+\S*$/, '')}…`
+    : definition;
+}
+
+/**
+ * Defined terms, found three ways: "X means ..." style sentences,
+ * parenthetical definitions such as `Northwind Traders Ltd (the "Company")`,
+ * and "Term: definition" lines in a Definitions or Glossary section
+ */
+function findDefinedTerms(document: CitableText): DefinedTerm[] {
+  const { text } = document;
+  const found: { term: string; definition: string; start: number }[] = [];
+  const meansRegex = new RegExp(
+    `^(?:\\(?[\\da-z]{1,3}[.)]\\s+|\\d+(?:\\.\\d+)*\\.?\\s+)?(?:(?:the|a|an)\\s+)?(?:["“']([^"”'\\n]{1,${MAX_TERM_LENGTH}})["”']|([^.,;:()"“\\n]{1,${MAX_TERM_LENGTH}}?))\\s*,?\\s+${DEFINITION_VERB}\\s+(.+)$`,
+    'i'
+  );
+  const parentheticalRegex =
+    /\((?:the\s+|each\s+a\s+|each\s+an\s+|hereinafter\s+(?:referred\s+to\s+as\s+)?(?:the\s+)?|collectively\s+(?:the\s+)?|together\s+(?:the\s+)?)?["“]([^"”\n]{1,60})["”]\)/g;
+
+  let inGlossary = false;
+  for (const line of linesOf(text)) {
+    const trimmed = line.text.trim();
+    if (isTitleLine(trimmed)) {
+      inGlossary = GLOSSARY_HEADING_REGEX.test(trimmed);
+      continue;
+    }
+
+    if (inGlossary) {
+      const entry = trimmed.match(/^(?:[-*•]\s*)?["“]?([^:"”–—]{1,60}?)["”]?\s*(?::|\s[–—-]\s)\s*(.+)$/);
+      const term = entry && cleanTerm(entry[1], true);
+      if (entry && term) {
+        found.push({ term, definition: cleanDefinition(entry[2]), start: line.start + line.text.indexOf(entry[1]) });
+        continue;
+      }
+    }
+
+    for (const sentence of splitSentences(line.text)) {
+      const sentenceText = sentence.text;
+      const sentenceStart = line.start + sentence.start;
+      const means = sentenceText.match(meansRegex);
+      const term = means && cleanTerm(means[1] ?? means[2], means[1] !== undefined);
+      if (means && term) {
+        found.push({ term, definition: cleanDefinition(means[3]), start: sentenceStart });
+      }
+
+      // Whatever precedes the parenthesis in its clause is what the term stands for
+      let parenthetical;
+      parentheticalRegex.lastIndex = 0;
+      while ((parenthetical = parentheticalRegex.exec(sentenceText)) !== null) {
+        const preceding = sentenceText.slice(0, parenthetical.index);
+        const clause = preceding.split(/,|;|\bbetween\b|\band\b|\bby\b|\bwith\b|\bof\b(?=\s+\p{Ll})/u).pop()!.trim();
+        const defined = cleanTerm(parenthetical[1], true);
+        if (defined && clause && /\p{L}/u.test(clause)) {
+          found.push({
+            term: defined,
+            definition: cleanDefinition(clause),
+            start: sentenceStart + parenthetical.index
+          });
+        }
+      }
+    }
+  }
+
+  const terms: DefinedTerm[] = [];
+  for (const { term, definition, start } of found) {
+    if (terms.some(other => other.term.toLowerCase() === term.toLowerCase())) continue;
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const uses = text.match(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'gu'));
+    terms.push({ term, definition, citation: sentenceCitation(document, start), count: Math.max(1, uses?.length ?? 0) });
+    if (terms.length >= MAX_GLOSSARY_TERMS) break;
+  }
+  return terms.sort((a, b) => a.term.localeCompare(b.term));
+}
+
+/**
+ * Key phrases, named entities and defined terms of a document, each with
+ * citations of where it occurs. Everything is rule-based and runs on the
+ * extracted text, so it needs neither an embedding nor an LLM provider.
+ */
+export function analyzeDocument(document: CitableText): DocumentInsights {
+  return {
+    documentId: document.documentId,
+    source: document.source,
+    keyPhrases: findKeyPhrases(document),
+    entities: findEntities(document),
+    glossary: findDefinedTerms(document)
+  };
+}
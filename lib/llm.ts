@@ -0,0 +1,175 @@
+import { HfInference } from '@huggingface/inference';
+import { readSseEvents } from './sse';
+
+// A message in a chat-style prompt
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerateOptions {
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // Called with each piece of text as it is generated
+}
+
+/**
+ * Generates text from a chat prompt. Providers stream through `onToken` when
+ * they can, and always resolve with the complete text.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generate(messages: LlmMessage[], options?: GenerateOptions): Promise<string>;
+}
+
+const DEFAULT_MAX_TOKENS = 512;
+const DEFAULT_TEMPERATURE = 0.2;
+
+/**
+ * Chat completions from the HuggingFace Inference API
+ */
+export class HuggingFaceLlmProvider implements LlmProvider {
+  readonly name: string;
+  private readonly client: HfInference;
+  private readonly model: string;
+
+  constructor(options: { apiKey?: string; model?: string } = {}) {
+    this.model = options.model || 'mistralai/Mistral-7B-Instruct-v0.3';
+    this.name = `huggingface:${this.model}`;
+    this.client = new HfInference(options.apiKey);
+  }
+
+  async generate(messages: LlmMessage[], options: GenerateOptions = {}): Promise<string> {
+    const stream = this.client.chatCompletionStream(
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE
+      },
+      { signal: options.signal }
+    );
+
+    let text = '';
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content || '';
+      if (!token) continue;
+      text += token;
+      options.onToken?.(token);
+    }
+    return text;
+  }
+}
+
+/**
+ * Chat completions from any server exposing the OpenAI `/chat/completions`
+ * endpoint (OpenAI, a local llama.cpp server, Ollama, LM Studio, vLLM...)
+ */
+export class OpenAICompatibleLlmProvider implements LlmProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly model: string;
+
+  constructor(options: { baseUrl?: string; apiKey?: string; model?: string } = {}) {
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || 'gpt-4o-mini';
+    this.name = `openai:${this.model}`;
+  }
+
+  async generate(messages: LlmMessage[], options: GenerateOptions = {}): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        stream: true
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const message = await response.text().catch(() => '');
+      throw new Error(`Completion request failed with status ${response.status}: ${message.slice(0, 200)}`);
+    }
+
+    // Streamed completions arrive as server-sent events, ending with "[DONE]"
+    let text = '';
+    await readSseEvents(response, ({ data }) => {
+      if (data === '[DONE]' || typeof data !== 'object') return;
+      const token = data.choices?.[0]?.delta?.content || '';
+      if (!token) return;
+      text += token;
+      options.onToken?.(token);
+    });
+    return text;
+  }
+}
+
+/**
+ * Scripted provider for tests and demos: replies with the given response (or
+ * one computed from the prompt), streamed word by word. Providers are created
+ * per request, so it keeps no state between calls.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly calls: LlmMessage[][] = []; // Prompts received, for assertions
+  private readonly reply: string | ((messages: LlmMessage[]) => string);
+
+  constructor(reply: string | ((messages: LlmMessage[]) => string)) {
+    this.reply = reply;
+  }
+
+  async generate(messages: LlmMessage[], options: GenerateOptions = {}): Promise<string> {
+    this.calls.push(messages);
+    const text = typeof this.reply === 'function' ? this.reply(messages) : this.reply;
+
+    for (const token of text.match(/\s*\S+\s*/g) || []) {
+      if (options.signal?.aborted) break;
+      options.onToken?.(token);
+    }
+    return text;
+  }
+}
+
+/**
+ * Pick the LLM provider from the environment:
+ * LLM_PROVIDER = huggingface | openai | mock | none. Generation is only turned
+ * on by naming a provider; an API key alone (which embeddings may use) is not
+ * enough. Returns null when answers should be extractive.
+ */
+export function getLlmProvider(): LlmProvider | null {
+  const provider = (process.env.LLM_PROVIDER || '').toLowerCase();
+
+  if (provider === 'openai') {
+    return new OpenAICompatibleLlmProvider({
+      baseUrl: process.env.LLM_API_BASE_URL,
+      apiKey: process.env.LLM_API_KEY,
+      model: process.env.LLM_MODEL
+    });
+  }
+
+  if (provider === 'huggingface') {
+    return new HuggingFaceLlmProvider({
+      apiKey: process.env.HUGGINGFACEHUB_API_KEY,
+      model: process.env.LLM_MODEL
+    });
+  }
+
+  if (provider === 'mock') {
+    return new MockLlmProvider(process.env.LLM_MOCK_RESPONSE || 'This is a scripted answer from the mock provider [1].');
+  }
+
+  if (provider && provider !== 'none') {
+    console.warn(`Unknown LLM_PROVIDER "${provider}", using extractive answers`);
+  }
+  return null;
+}
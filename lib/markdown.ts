@@ -0,0 +1,285 @@
+import { splitCitationMarkers } from './citations';
+
+/**
+ * A small Markdown parser for chat answers. It produces a tree that is
+ * rendered as React elements, so HTML in an answer (or in the document text
+ * it quotes) is never interpreted: it is shown as the text it is.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'marker'; marker: number } // A [n] citation marker
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strikethrough'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'table'; align: TableAlignment[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*)|\s*$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Only links that open a page or compose an email; javascript: and data: URLs are dropped
+export function safeUrl(href: string): string | null {
+  const url = href.trim();
+  if (/^(?:https?:|mailto:)/i.test(url)) return url;
+  // Relative links stay within the app
+  if (/^[/#]/.test(url) && !url.startsWith('//')) return url;
+  return null;
+}
+
+// Plain text with its [n] citation markers picked out
+function textNodes(text: string): InlineNode[] {
+  return splitCitationMarkers(text).map(part =>
+    part.type === 'marker' ? { type: 'marker', marker: part.marker } : { type: 'text', text: part.text }
+  );
+}
+
+// Inline syntax, matched where the scan has got to (sticky patterns)
+const ESCAPE = /\\([\\`*_{}[\]()#+\-.!|>~])/y;
+const CODE_SPAN = /(`+)([\s\S]*?[^`])\1(?!`)/y;
+const LINK = /\[([^\]\n]+)\]\(\s*<?((?:[^()\s<>]|\([^()\s]*\))+)>?(?:\s+"[^"]*")?\s*\)/y;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^>\s]+)>/y;
+const BARE_URL = /https?:\/\/[^\s<]*[^\s<.,:;"')\]]/y;
+const STRONG = /(\*\*|__)(?=\S)([\s\S]*?\S)\1/y;
+const STRIKETHROUGH = /~~(?=\S)([\s\S]*?\S)~~/y;
+const EMPHASIS = /([*_])(?=[^\s*_])([\s\S]*?[^\s*_])\1/y;
+const HARD_BREAK = /(?: {2,}|\\)\n/y;
+
+// Characters that can start inline syntax; everything else is plain text
+const INLINE_START = /[\\`[<h*_~\n ]/;
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push(...textNodes(plain));
+    plain = '';
+  };
+  const isWordBefore = (index: number) => index > 0 && /\w/.test(text[index - 1]);
+
+  let i = 0;
+  while (i < text.length) {
+    if (!INLINE_START.test(text[i])) {
+      plain += text[i++];
+      continue;
+    }
+
+    const at = (pattern: RegExp) => {
+      pattern.lastIndex = i;
+      return pattern.exec(text);
+    };
+    let match: RegExpMatchArray | null;
+    if ((match = at(ESCAPE))) {
+      plain += match[1];
+    } else if ((match = at(CODE_SPAN))) {
+      flush();
+      nodes.push({ type: 'code', text: match[2].replace(/^ (.+) $/, '$1') });
+    } else if ((match = at(LINK))) {
+      const href = safeUrl(match[2]);
+      flush();
+      if (href) {
+        nodes.push({ type: 'link', href, children: parseInline(match[1]) });
+      } else {
+        nodes.push(...parseInline(match[1]));
+      }
+    } else if ((match = at(AUTOLINK))) {
+      flush();
+      nodes.push({ type: 'link', href: match[1], children: [{ type: 'text', text: match[1] }] });
+    } else if (!isWordBefore(i) && (match = at(BARE_URL))) {
+      flush();
+      nodes.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+    } else if ((match = at(STRONG)) && !(match[1] === '__' && isWordBefore(i))) {
+      flush();
+      nodes.push({ type: 'strong', children: parseInline(match[2]) });
+    } else if ((match = at(STRIKETHROUGH))) {
+      flush();
+      nodes.push({ type: 'strikethrough', children: parseInline(match[1]) });
+    } else if ((match = at(EMPHASIS)) && !(match[1] === '_' && isWordBefore(i))) {
+      flush();
+      nodes.push({ type: 'emphasis', children: parseInline(match[2]) });
+    } else if ((match = at(HARD_BREAK)) || text[i] === '\n') {
+      // Chat answers put quotes on their own lines, so every line break is kept
+      flush();
+      nodes.push({ type: 'break' });
+      if (!match) match = ['\n'];
+    } else {
+      plain += text[i++];
+      continue;
+    }
+    i += match[0].length;
+  }
+
+  flush();
+  return nodes;
+}
+
+// Cells of a table row, without the outer pipes; escaped pipes stay in their cell
+function splitTableRow(line: string): string[] {
+  const row = line.trim().replace(/^\|/, '');
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  if (cell.trim()) cells.push(cell.trim());
+  return cells;
+}
+
+function tableAlignment(cell: string): TableAlignment {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+// Whether a line starts a block other than a paragraph, so it ends the paragraph before it
+function startsBlock(line: string, next: string | undefined): boolean {
+  return FENCE.test(line)
+    || HEADING.test(line)
+    || RULE.test(line)
+    || BLOCKQUOTE.test(line)
+    || LIST_ITEM.test(line) && !!line.match(LIST_ITEM)?.[3]
+    || line.includes('|') && next !== undefined && TABLE_DELIMITER.test(next);
+}
+
+// Parse Markdown text into blocks: headings, paragraphs, lists, code, quotes, tables and rules
+export function parseMarkdown(text: string): BlockNode[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseBlocks(lines: string[]): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if (!line.trim()) {
+      i++;
+    } else if ((match = line.match(FENCE))) {
+      // Code runs to the closing fence, or to the end of a message still being streamed
+      const closingFence = new RegExp(`^ {0,3}${match[1][0]}{${match[1].length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closingFence.test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: 'code', language: match[2] || undefined, text: code.join('\n') });
+    } else if ((match = line.match(HEADING))) {
+      blocks.push({ type: 'heading', level: match[1].length, children: parseInline(match[2] || '') });
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+    } else if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        // Lines without ">" lazily continue the quote
+        quoted.push(lines[i].match(BLOCKQUOTE)?.[1] ?? lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+    } else if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(tableAlignment);
+      i += 2;
+      const rows: InlineNode[][][] = [];
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitTableRow(lines[i++]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+    } else if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks);
+    } else {
+      const paragraph = [line.trim()];
+      i++;
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) {
+        paragraph.push(lines[i++].trim());
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a list starting at line `start` and add it to `blocks`. An item holds
+ * the lines indented past its marker (nested lists included) and lines that
+ * simply continue its text. Returns the index of the first line after the list.
+ */
+function parseList(lines: string[], start: number, blocks: BlockNode[]): number {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: BlockNode[][] = [];
+  let i = start;
+
+  const sameList = (match: RegExpMatchArray | null) =>
+    !!match && match[1].length === indent && /\d/.test(match[2]) === ordered && match[2].slice(-1) === delimiter;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!sameList(match)) break;
+
+    const contentIndent = match![1].length + match![2].length + 1;
+    const content = [match![3] || ''];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line continues the item only if indented content follows
+        const next = lines.slice(i + 1).find(l => l.trim());
+        if (next === undefined || next.search(/\S/) < contentIndent) break;
+        content.push('');
+        i++;
+      } else if (line.search(/\S/) >= contentIndent) {
+        content.push(line.slice(contentIndent));
+        i++;
+      } else if (!LIST_ITEM.test(line) && !startsBlock(line, lines[i + 1]) && content[content.length - 1] !== '') {
+        content.push(line.trim());
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    items.push(parseBlocks(content));
+
+    // Items separated by blank lines still form one list
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next < lines.length && sameList(lines[next].match(LIST_ITEM))) i = next;
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+  return i;
+}
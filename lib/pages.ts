@@ -0,0 +1,44 @@
+import { PageSpan } from '@/app/types/document';
+
+// Join per-page text into a single document string, recording where each page starts and ends
+export function joinPages(pageTexts: string[]): { text: string; pageSpans: PageSpan[] } {
+  const pageSpans: PageSpan[] = [];
+  let text = '';
+
+  pageTexts.forEach((pageText, index) => {
+    const cleaned = pageText.trim();
+    if (cleaned && text) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    text += cleaned;
+    pageSpans.push({ page: index + 1, start, end: text.length });
+  });
+
+  return { text, pageSpans };
+}
+
+// Find the page, or page range, that a character range of the document falls on
+export function findPageRange(
+  pageSpans: PageSpan[] | undefined,
+  start: number,
+  end: number = start
+): { page: number; pageEnd?: number } {
+  // Documents without pages (text, DOCX) are treated as a single page
+  if (!pageSpans || pageSpans.length === 0) {
+    return { page: 1 };
+  }
+
+  const pageAt = (offset: number) => {
+    const span = pageSpans.find(s => s.end > s.start && offset >= s.start && offset < s.end)
+      // Offsets in the separator between pages belong to the next non-empty page
+      || pageSpans.find(s => s.end > s.start && s.start >= offset)
+      || pageSpans[pageSpans.length - 1];
+    return span.page;
+  };
+
+  const page = pageAt(start);
+  const pageEnd = pageAt(Math.max(start, end - 1));
+
+  return pageEnd > page ? { page, pageEnd } : { page };
+}
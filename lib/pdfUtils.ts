@@ -1,4 +1,6 @@
 import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+import { PageSpan } from '@/app/types/document';
+import { joinPages } from './pages';
 
 // Keep track of worker initialization
 let workerInitialized = false;
@@ -22,8 +24,8 @@ const loadPdfJsWorker = () => {
   }
 };
 
-// Process PDF file and return text content
-export async function extractTextFromPdf(file: File): Promise<{ text: string; pages: number }> {
+// Process PDF file and return text content, with the character range of each page
+export async function extractTextFromPdf(file: File): Promise<{ text: string; pages: number; pageSpans: PageSpan[] }> {
   try {
     // Make sure worker is loaded
     loadPdfJsWorker();
@@ -48,7 +50,7 @@ export async function extractTextFromPdf(file: File): Promise<{ text: string; pa
     console.log(`PDF has ${totalPages} pages`);
     
     // Extract text with a reasonable page limit
-    let fullText = '';
+    const pageTexts: string[] = [];
     const maxPages = Math.min(totalPages, 50); // Safety limit for large PDFs
     
     for (let i = 1; i <= maxPages; i++) {
@@ -62,29 +64,31 @@ export async function extractTextFromPdf(file: File): Promise<{ text: string; pa
           .map((item: any) => 'str' in item ? item.str : '')
           .join(' ');
         
-        fullText += pageText + '\n\n';
+        pageTexts.push(cleanText(pageText));
         
         // Release page resources for better memory management
         page.cleanup && await page.cleanup();
       } catch (err) {
         console.error(`Error extracting text from page ${i}:`, err);
+        pageTexts.push('');
       }
     }
     
-    // Add note if pages were skipped
-    if (totalPages > maxPages) {
-      fullText += `\n[Note: Only processed first ${maxPages} of ${totalPages} pages due to size limits]`;
-    }
-    
     // Clean up resources
     pdfDocument.destroy && await pdfDocument.destroy();
     
-    const cleanedText = cleanText(fullText);
-    console.log(`Extracted ${cleanedText.length} characters from PDF`);
+    const { text, pageSpans } = joinPages(pageTexts);
+    console.log(`Extracted ${text.length} characters from PDF`);
+    
+    // Add note if pages were skipped
+    const note = totalPages > maxPages
+      ? `\n\n[Note: Only processed first ${maxPages} of ${totalPages} pages due to size limits]`
+      : '';
     
     return { 
-      text: cleanedText || 'No extractable text found in document', 
-      pages: totalPages
+      text: text ? text + note : '', // Empty, so the server extracts it and reports why it can't
+      pages: totalPages,
+      pageSpans
     };
   } catch (error: any) {
     console.error('Error processing PDF:', error);
@@ -0,0 +1,239 @@
+import { SchemaField } from '@/app/types/extract';
+import { LlmMessage } from './llm';
+import { ConversationTurn } from './conversation';
+
+// Prompt templates; `{{name}}` placeholders are filled in when rendering
+export interface PromptTemplates {
+  system: string;
+  user: string; // Receives {{context}} and {{question}}
+}
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    "You answer questions about the user's documents.",
+    'Use only the numbered passages you are given, not outside knowledge.',
+    'Cite the passages you rely on with their number in square brackets, like [1] or [2][3].',
+    "If the passages don't contain the answer, say that you couldn't find it in the documents."
+  ].join(' '),
+  user: 'Passages:\n\n{{context}}\n\nQuestion: {{question}}'
+};
+
+// A retrieved passage given to the model as context
+export interface ContextPassage {
+  text: string;
+  source: string;
+  page: number;
+  pageEnd?: number;
+}
+
+// Defaults, overridden by LLM_SYSTEM_PROMPT / LLM_USER_PROMPT, then by the request
+export function resolvePromptTemplates(overrides?: Partial<PromptTemplates>): PromptTemplates {
+  const pick = (value: unknown, fallback: string) =>
+    typeof value === 'string' && value.trim() ? value : fallback;
+
+  return {
+    system: pick(overrides?.system, pick(process.env.LLM_SYSTEM_PROMPT, DEFAULT_PROMPT_TEMPLATES.system)),
+    user: pick(overrides?.user, pick(process.env.LLM_USER_PROMPT, DEFAULT_PROMPT_TEMPLATES.user))
+  };
+}
+
+// Fill `{{name}}` placeholders; unknown placeholders are left as they are
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+// Number the passages so the model can cite them as [1], [2]...
+export function formatContext(passages: ContextPassage[]): string {
+  return passages
+    .map((passage, i) => {
+      const pages = passage.pageEnd && passage.pageEnd > passage.page
+        ? `pages ${passage.page}-${passage.pageEnd}`
+        : `page ${passage.page}`;
+      return `[${i + 1}] ${passage.source}, ${pages}\n${passage.text.trim()}`;
+    })
+    .join('\n\n');
+}
+
+// Build the chat messages asking the model to answer from the passages
+export function buildAnswerPrompt(
+  question: string,
+  passages: ContextPassage[],
+  templates: PromptTemplates = DEFAULT_PROMPT_TEMPLATES
+): LlmMessage[] {
+  const values = { context: formatContext(passages), question };
+  return [
+    { role: 'system', content: renderTemplate(templates.system, values) },
+    { role: 'user', content: renderTemplate(templates.user, values) }
+  ];
+}
+
+// Prompt for turning a follow-up into a standalone question
+export const REWRITE_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    "Rewrite the user's last message as a standalone question that can be understood without the conversation.",
+    'Resolve pronouns and references such as "it" or "the second one" using the conversation.',
+    'Reply with the question only. If it is already standalone, repeat it unchanged.'
+  ].join(' '),
+  user: 'Conversation:\n{{history}}\n\nLast message: {{question}}\n\nStandalone question:'
+};
+
+// Build the messages asking the model to rewrite a follow-up, using the last few turns
+export function buildRewritePrompt(question: string, history: ConversationTurn[], maxTurns = 6): LlmMessage[] {
+  const transcript = history
+    .slice(-maxTurns)
+    .map(turn => {
+      const content = turn.content.length > 600 ? `${turn.content.slice(0, 600)}...` : turn.content;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n');
+  const values = { history: transcript, question };
+
+  return [
+    { role: 'system', content: renderTemplate(REWRITE_PROMPT_TEMPLATES.system, values) },
+    { role: 'user', content: renderTemplate(REWRITE_PROMPT_TEMPLATES.user, values) }
+  ];
+}
+
+// Map step of summarization: condense one part of a document
+export const SUMMARY_MAP_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    'You summarize part of a document.',
+    'Write two or three sentences covering its main points, using only the text you are given.',
+    'Reply with the summary only.'
+  ].join(' '),
+  user: 'Document: {{source}}\nSection: {{section}}\n\nText:\n{{text}}\n\nSummary:'
+};
+
+// Reduce step of summarization: combine numbered notes into the final summary
+export const SUMMARY_REDUCE_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    'You combine numbered notes about a document into one summary.',
+    'Use only the notes, and cite the notes you rely on with their number in square brackets, like [1] or [2][3].',
+    '{{instruction}} Reply with the summary only.'
+  ].join(' '),
+  user: 'Document: {{source}}\n\nNotes:\n{{notes}}\n\nSummary:'
+};
+
+// Build the messages asking the model to summarize one part of a document
+export function buildSummaryMapPrompt(text: string, source: string, section: string): LlmMessage[] {
+  const values = { text, source, section };
+  return [
+    { role: 'system', content: renderTemplate(SUMMARY_MAP_PROMPT_TEMPLATES.system, values) },
+    { role: 'user', content: renderTemplate(SUMMARY_MAP_PROMPT_TEMPLATES.user, values) }
+  ];
+}
+
+// Build the messages asking the model to merge notes, numbered [1], [2]...
+export function buildSummaryReducePrompt(notes: string[], source: string, instruction: string): LlmMessage[] {
+  const values = {
+    notes: notes.map((note, i) => `[${i + 1}] ${note.trim()}`).join('\n'),
+    source,
+    instruction
+  };
+  return [
+    { role: 'system', content: renderTemplate(SUMMARY_REDUCE_PROMPT_TEMPLATES.system, values) },
+    { role: 'user', content: renderTemplate(SUMMARY_REDUCE_PROMPT_TEMPLATES.user, values) }
+  ];
+}
+
+// Prompt for comparing what several documents say about a question
+export const COMPARE_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    'You compare what several documents say about a question, using only the numbered passages you are given.',
+    'List each point on its own line, starting with "AGREEMENT:" for what the documents have in common',
+    'or "DIFFERENCE:" for where they differ or only one of them covers something.',
+    'Name the documents involved and cite the passages with their number in square brackets, like [1][4].'
+  ].join(' '),
+  user: '{{context}}\n\nQuestion: {{question}}'
+};
+
+// Build the messages asking the model to compare documents, one block of passages per document
+export function buildComparePrompt(
+  question: string,
+  documents: { source: string; passages: ContextPassage[] }[]
+): LlmMessage[] {
+  let number = 0;
+  const context = documents
+    .map(document => {
+      const passages = document.passages.map(passage => {
+        number++;
+        const pages = passage.pageEnd && passage.pageEnd > passage.page
+          ? `pages ${passage.page}-${passage.pageEnd}`
+          : `page ${passage.page}`;
+        return `[${number}] ${pages}\n${passage.text.trim()}`;
+      });
+      return `Document: ${document.source}\n\n${passages.join('\n\n') || '(no relevant passages)'}`;
+    })
+    .join('\n\n---\n\n');
+  const values = { context, question };
+
+  return [
+    { role: 'system', content: renderTemplate(COMPARE_PROMPT_TEMPLATES.system, values) },
+    { role: 'user', content: renderTemplate(COMPARE_PROMPT_TEMPLATES.user, values) }
+  ];
+}
+
+// Prompt for reading the fields of a schema out of a document
+export const EXTRACT_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    'You extract structured data from a document, using only the numbered passages you are given.',
+    'Reply with a single JSON object that has one key per field. Give each field as {"value": ..., "passage": n},',
+    'where n is the number of the passage the value comes from, or null when the passages do not give it.',
+    'Write dates as YYYY-MM-DD, money as {"amount": 12.5, "currency": "USD"} and numbers as JSON numbers;',
+    'list fields take an array of values. Reply with the JSON only.'
+  ].join(' '),
+  user: 'Fields:\n{{fields}}\n\nPassages:\n\n{{context}}\n\nJSON:'
+};
+
+// Build the messages asking the model to fill in a schema from the passages
+export function buildExtractPrompt(
+  fields: SchemaField[],
+  passages: ContextPassage[]
+): LlmMessage[] {
+  const values = {
+    fields: fields
+      .map(field => {
+        const type = field.multiple ? `list of ${field.type}` : field.type;
+        return `- ${field.name} (${type})${field.description ? `: ${field.description}` : ''}`;
+      })
+      .join('\n'),
+    context: formatContext(passages)
+  };
+  return [
+    { role: 'system', content: renderTemplate(EXTRACT_PROMPT_TEMPLATES.system, values) },
+    { role: 'user', content: renderTemplate(EXTRACT_PROMPT_TEMPLATES.user, values) }
+  ];
+}
+
+// Prompt for proposing starter questions about a newly uploaded document
+export const SUGGESTION_PROMPT_TEMPLATES: PromptTemplates = {
+  system: [
+    'You suggest questions a reader could ask about a document.',
+    'Write {{count}} short, specific questions that the document itself can answer, one per line,',
+    'covering different parts of it. Reply with the questions only.'
+  ].join(' '),
+  user: 'Document: {{source}}\nHeadings: {{headings}}\nKey terms: {{terms}}\n\nOpening:\n{{excerpt}}\n\nQuestions:'
+};
+
+// Build the messages asking the model for starter questions, from the document's outline and opening
+export function buildSuggestionPrompt(
+  source: string,
+  headings: string[],
+  terms: string[],
+  excerpt: string,
+  count: number
+): LlmMessage[] {
+  const values = {
+    source,
+    headings: headings.join('; ') || '(none)',
+    terms: terms.join(', ') || '(none)',
+    excerpt: excerpt.trim(),
+    count: String(count)
+  };
+  return [
+    { role: 'system', content: renderTemplate(SUGGESTION_PROMPT_TEMPLATES.system, values) },
+    { role: 'user', content: renderTemplate(SUGGESTION_PROMPT_TEMPLATES.user, values) }
+  ];
+}
@@ -0,0 +1,79 @@
+import { ParagraphChange, RedlineDiff, SentenceChange } from '@/app/types/diff';
+
+// Kept free of server-only imports so the diff page can export in the browser
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+function renderSentences(sentences: SentenceChange[]): string {
+  return sentences.map(sentence => {
+    const text = escapeHtml(sentence.text);
+    if (sentence.type === 'insert') return `<ins>${text}</ins>`;
+    if (sentence.type === 'delete') return `<del>${text}</del>`;
+    return text;
+  }).join(' ');
+}
+
+function renderParagraph(change: ParagraphChange): string {
+  switch (change.type) {
+    case 'equal':
+      return `<p>${escapeHtml(change.after || '')}</p>`;
+    case 'insert':
+      return `<p class="insert"><ins>${escapeHtml(change.after || '')}</ins></p>`;
+    case 'delete':
+      return `<p class="delete"><del>${escapeHtml(change.before || '')}</del></p>`;
+    case 'change':
+      return `<p class="change">${renderSentences(change.sentences || [])}</p>`;
+    case 'moved-from':
+      return `<p class="moved-from" id="move-from-${change.moveId}"><del>${escapeHtml(change.before || '')}</del>` +
+        ` <a class="note" href="#move-to-${change.moveId}">Moved (${change.moveId})</a></p>`;
+    case 'moved-to': {
+      const text = change.sentences ? renderSentences(change.sentences) : `<ins>${escapeHtml(change.after || '')}</ins>`;
+      return `<p class="moved-to" id="move-to-${change.moveId}">${text}` +
+        ` <a class="note" href="#move-from-${change.moveId}">Moved here (${change.moveId})</a></p>`;
+    }
+  }
+}
+
+// Counts of each kind of change as one line
+export function describeRedline(diff: RedlineDiff): string {
+  const { unchanged, inserted, deleted, changed, moved } = diff.stats;
+  return `${changed} changed, ${inserted} inserted, ${deleted} deleted, ${moved} moved, ${unchanged} unchanged paragraphs`;
+}
+
+// A self-contained HTML page of the redline, with insertions underlined and deletions struck through
+export function renderRedlineHtml(diff: RedlineDiff): string {
+  const title = `Redline: ${diff.before.name} → ${diff.after.name}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #1e293b; }
+  header { border-bottom: 1px solid #cbd5e1; margin-bottom: 1.5rem; font-family: system-ui, sans-serif; }
+  header p { color: #64748b; font-size: 0.9rem; }
+  p { margin: 0 0 1rem; padding-left: 0.75rem; border-left: 3px solid transparent; }
+  ins { color: #166534; background: #dcfce7; text-decoration: underline; }
+  del { color: #991b1b; background: #fee2e2; }
+  .insert, .moved-to { border-left-color: #16a34a; }
+  .delete, .moved-from { border-left-color: #dc2626; }
+  .change { border-left-color: #d97706; }
+  .note { font-family: system-ui, sans-serif; font-size: 0.75rem; color: #2563eb; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(describeRedline(diff))}</p>
+</header>
+${diff.changes.map(renderParagraph).join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,290 @@
+import { Document } from '@langchain/core/documents';
+import { Citation, RetrieverName } from '@/app/types/chat';
+import { ChunkMetadata, isHeadingLine, splitSentences } from './chunking';
+import { EmbeddingProvider } from './embeddings';
+import { createVectorIndex } from './vectorStore';
+import { Bm25Index, tokenize } from './bm25';
+
+// How chunks are ranked against the question
+export type RetrievalMode = 'lexical' | 'semantic' | 'hybrid';
+
+export interface RetrievalOptions {
+  mode: RetrievalMode;
+  limit: number; // Maximum number of ranked chunks per retriever
+  weights: Record<RetrieverName, number>; // Weight of each retriever in rank fusion
+  rrfK: number; // Rank fusion damping; larger values flatten the gap between ranks
+  lambda: number; // MMR trade-off: 1 = pure relevance, 0 = pure diversity
+}
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  mode: 'hybrid',
+  limit: 20,
+  weights: { lexical: 1, semantic: 1, conversation: 0.5, focus: 1 },
+  rrfK: 60,
+  lambda: 0.5
+};
+
+// Chunks less similar than this are treated as unrelated to the question
+const MIN_SEMANTIC_SCORE = 0.1;
+
+// A chunk position with its retrieval score, best first
+export interface RankedChunk {
+  index: number;
+  score: number;
+}
+
+// A chunk ranked by fusing several retrievers
+export interface FusedChunk extends RankedChunk {
+  retrievers: RetrieverName[]; // Retrievers that returned the chunk
+}
+
+// Retrieval options as sent by the client, any of which may be omitted
+export type RetrievalRequestOptions = Partial<Omit<RetrievalOptions, 'weights'>> & {
+  weights?: Partial<Record<RetrieverName, number>>;
+};
+
+// Clamp a possibly missing or non-numeric option into range
+function clampOption(value: unknown, fallback: number, min: number, max: number): number {
+  const number = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return Math.min(max, Math.max(min, number));
+}
+
+// Merge and validate user-supplied retrieval options
+export function resolveRetrievalOptions(options?: RetrievalRequestOptions): RetrievalOptions {
+  const defaults = DEFAULT_RETRIEVAL_OPTIONS;
+  const mode = options?.mode === 'lexical' || options?.mode === 'semantic' || options?.mode === 'hybrid'
+    ? options.mode
+    : defaults.mode;
+
+  return {
+    mode,
+    limit: Math.round(clampOption(options?.limit, defaults.limit, 1, 100)),
+    weights: {
+      lexical: clampOption(options?.weights?.lexical, defaults.weights.lexical, 0, 10),
+      semantic: clampOption(options?.weights?.semantic, defaults.weights.semantic, 0, 10),
+      conversation: clampOption(options?.weights?.conversation, defaults.weights.conversation, 0, 10),
+      focus: clampOption(options?.weights?.focus, defaults.weights.focus, 0, 10)
+    },
+    rrfK: clampOption(options?.rrfK, defaults.rrfK, 1, 1000),
+    lambda: clampOption(options?.lambda, defaults.lambda, 0, 1)
+  };
+}
+
+/**
+ * Reciprocal rank fusion: each retriever contributes weight / (k + rank) for
+ * every chunk it returns, so chunks ranked well by several retrievers rise to
+ * the top without having to compare BM25 scores with cosine similarities.
+ */
+export function reciprocalRankFusion(
+  rankings: Partial<Record<RetrieverName, RankedChunk[]>>,
+  weights: Record<RetrieverName, number>,
+  k: number
+): FusedChunk[] {
+  const fused = new Map<number, FusedChunk>();
+
+  for (const [retriever, results] of Object.entries(rankings) as [RetrieverName, RankedChunk[]][]) {
+    const weight = weights[retriever];
+    if (weight <= 0) continue;
+
+    results.forEach((result, rank) => {
+      const entry = fused.get(result.index) || { index: result.index, score: 0, retrievers: [] };
+      entry.score += weight / (k + rank + 1);
+      entry.retrievers.push(retriever);
+      fused.set(result.index, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+// Term frequencies of a passage and their norm, for comparing it with many others
+export interface TermVector {
+  counts: Map<string, number>;
+  norm: number;
+}
+
+export function termVector(text: string): TermVector {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  const norm = Math.sqrt(Array.from(counts.values()).reduce((sum, count) => sum + count * count, 0));
+  return { counts, norm };
+}
+
+// Cosine similarity of two term vectors
+export function vectorSimilarity(a: TermVector, b: TermVector): number {
+  if (a.norm === 0 || b.norm === 0) return 0;
+  const [smaller, larger] = a.counts.size <= b.counts.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.counts.forEach((count, term) => { dot += count * (larger.counts.get(term) || 0); });
+  return dot / (a.norm * b.norm);
+}
+
+// Cosine similarity of the term-frequency vectors of two passages
+export function termSimilarity(a: string, b: string): number {
+  return vectorSimilarity(termVector(a), termVector(b));
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the candidate that best balances
+ * relevance against similarity to what has already been picked. Relevance is
+ * rescaled to 0-1 so it is comparable with the similarity measure.
+ */
+export function maximalMarginalRelevance<T>(
+  candidates: T[],
+  relevance: (candidate: T) => number,
+  similarity: (a: T, b: T) => number,
+  lambda: number,
+  count: number
+): T[] {
+  const maxRelevance = Math.max(0, ...candidates.map(relevance));
+  const remaining = [...candidates];
+  const selected: T[] = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, i) => {
+      const normalized = maxRelevance > 0 ? relevance(candidate) / maxRelevance : 0;
+      const redundancy = selected.length > 0 ? Math.max(...selected.map(s => similarity(candidate, s))) : 0;
+      const score = lambda * normalized - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
+
+// A sentence of a passage, with its offset and the rarity of the query terms it contains
+export interface ScoredSentence {
+  sentence: string;
+  start: number;
+  score: number;
+}
+
+// Sentences of a passage that contain query terms, most informative first (shorter first among equals)
+export function rankSentences(text: string, terms: string[], index: Bm25Index): ScoredSentence[] {
+  const sentences: ScoredSentence[] = [];
+
+  for (const { text: sentence, start } of splitSentences(text)) {
+    // Headings name a section rather than state anything worth citing
+    if (sentence.length < 3 || isHeadingLine(sentence)) continue;
+
+    // Sum the rarity of the query terms this sentence contains
+    const sentenceTerms = new Set(tokenize(sentence));
+    const score = terms.reduce((sum, term) => sum + (sentenceTerms.has(term) ? index.idf(term) : 0), 0);
+    if (score > 0) {
+      sentences.push({ sentence, start, score });
+    }
+  }
+
+  return sentences.sort((a, b) => b.score - a.score || a.sentence.length - b.sentence.length);
+}
+
+// Find the sentence of a passage that covers the most informative query terms
+export function findBestSentence(text: string, terms: string[], index: Bm25Index): { sentence: string, start: number } | null {
+  return rankSentences(text, terms, index)[0] || null;
+}
+
+// Each retriever's ranking of a document's chunks
+export type ChunkRankings = Partial<Record<RetrieverName, RankedChunk[]>>;
+
+/**
+ * Rank one document's chunks for a query with each retriever chat uses: BM25
+ * and semantic search, falling back to BM25 alone when embeddings are
+ * unavailable or fail
+ */
+export async function rankChunksByRetriever(
+  query: string,
+  terms: string[],
+  chunks: Document<ChunkMetadata>[],
+  index: Bm25Index,
+  provider: EmbeddingProvider | null,
+  options: RetrievalOptions,
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>
+): Promise<ChunkRankings> {
+  const rankings: ChunkRankings = {};
+
+  if (options.mode !== 'semantic' || !provider) {
+    rankings.lexical = index.search(terms, options.limit);
+  }
+  if (options.mode !== 'lexical' && provider) {
+    try {
+      const vectors = embedChunks ? await embedChunks(provider) : undefined;
+      rankings.semantic = await semanticSearch(query, chunks, provider, options.limit, vectors);
+    } catch (error) {
+      console.error(`Semantic retrieval failed for ${chunks[0]?.metadata.source}, using BM25 ranking:`, error);
+      rankings.lexical = rankings.lexical || index.search(terms, options.limit);
+    }
+  }
+
+  return rankings;
+}
+
+// Rank one document's chunks the way chat does, merging the retrievers with rank fusion
+export async function rankDocumentChunks(
+  query: string,
+  terms: string[],
+  chunks: Document<ChunkMetadata>[],
+  index: Bm25Index,
+  provider: EmbeddingProvider | null,
+  options: RetrievalOptions,
+  embedChunks?: (provider: EmbeddingProvider) => Promise<number[][]>
+): Promise<FusedChunk[]> {
+  const rankings = await rankChunksByRetriever(query, terms, chunks, index, provider, options, embedChunks);
+  return reciprocalRankFusion(rankings, options.weights, options.rrfK);
+}
+
+/**
+ * Rank chunks by embedding similarity to the query, using a FAISS index.
+ * Chunks are embedded on the fly unless their vectors are passed in.
+ */
+export async function semanticSearch(
+  query: string,
+  chunks: Document<ChunkMetadata>[],
+  provider: EmbeddingProvider,
+  limit: number,
+  precomputedVectors?: number[][]
+): Promise<RankedChunk[]> {
+  if (chunks.length === 0) return [];
+
+  const [chunkVectors, queryVector] = await Promise.all([
+    precomputedVectors || provider.embedDocuments(chunks.map(chunk => chunk.pageContent)),
+    provider.embedQuery(query)
+  ]);
+
+  const index = await createVectorIndex(queryVector.length);
+  index.add(chunkVectors);
+  console.log(`Embedded ${index.size} chunks with ${provider.name}`);
+
+  return index
+    .search(queryVector, limit)
+    .filter(result => result.score >= MIN_SEMANTIC_SCORE);
+}
+
+/**
+ * Rank the chunks that contain passages cited in earlier answers, in citation
+ * order, so follow-up questions can keep using the same evidence
+ */
+export function findCitedChunks(chunks: Document<ChunkMetadata>[], citations: Citation[]): RankedChunk[] {
+  const ranked: RankedChunk[] = [];
+  const seen = new Set<number>();
+
+  citations.forEach((citation, rank) => {
+    const text = citation.text?.trim();
+    if (!text) return;
+
+    chunks.forEach((chunk, index) => {
+      if (seen.has(index) || chunk.metadata.source !== citation.source || !chunk.pageContent.includes(text)) return;
+      seen.add(index);
+      ranked.push({ index, score: 1 / (rank + 1) });
+    });
+  });
+
+  return ranked;
+}
@@ -0,0 +1,214 @@
+import { ChatSession, Message } from '@/app/types/chat';
+
+// Where sessions are kept: IndexedDB, localStorage when IndexedDB is blocked, or only in memory
+export type SessionStorageKind = 'indexedDB' | 'localStorage' | 'memory';
+
+export interface SessionStore {
+  kind: SessionStorageKind;
+  list(): Promise<ChatSession[]>;
+  save(session: ChatSession): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export const DEFAULT_SESSION_NAME = 'New chat';
+
+const DATABASE_NAME = 'document-qa';
+const DATABASE_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const SESSIONS_KEY = 'chat_sessions';
+
+// Keys of the single conversation kept before sessions existed
+const LEGACY_MESSAGES_KEY = 'chat_messages';
+const LEGACY_DOCUMENTS_KEY = 'document_ids';
+
+// Safe storage helper functions with improved error handling
+const safeLocalStorage = {
+  getItem: (key: string): string | null => {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      // First check if localStorage is actually available
+      if (window.localStorage === undefined) return null;
+
+      // Attempt to read directly without testing first (reduces operations)
+      return window.localStorage.getItem(key);
+    } catch (e) {
+      console.warn('Local storage access denied:', e);
+      return null;
+    }
+  },
+  setItem: (key: string, value: string): boolean => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      // First check if localStorage is actually available
+      if (window.localStorage === undefined) return false;
+
+      // Attempt to write directly
+      window.localStorage.setItem(key, value);
+      return true;
+    } catch (e) {
+      console.warn('Local storage access denied:', e);
+      return false;
+    }
+  },
+  removeItem: (key: string): void => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      if (window.localStorage === undefined) return;
+      window.localStorage.removeItem(key);
+    } catch (e) {
+      console.warn('Local storage access denied:', e);
+    }
+  },
+  isAvailable: (): boolean => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      // Use a simpler test that doesn't try to write
+      return !!window.localStorage;
+    } catch (e) {
+      return false;
+    }
+  }
+};
+
+// A new, empty session
+export function createSession(name = DEFAULT_SESSION_NAME): ChatSession {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    name,
+    messages: [],
+    documentIds: [],
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+// Wrap an IndexedDB request in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(SESSION_STORE)) {
+        open.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+    open.onblocked = () => reject(new Error('The session database is blocked by another tab'));
+  });
+}
+
+async function openIndexedDbStore(): Promise<SessionStore> {
+  const db = await openDatabase();
+  const sessions = (mode: IDBTransactionMode) => db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE);
+
+  return {
+    kind: 'indexedDB',
+    list: () => request(sessions('readonly').getAll() as IDBRequest<ChatSession[]>),
+    save: async session => {
+      await request(sessions('readwrite').put(session));
+    },
+    remove: async id => {
+      await request(sessions('readwrite').delete(id));
+    }
+  };
+}
+
+// All sessions in one localStorage entry, for browsers that block IndexedDB
+function localStorageStore(): SessionStore {
+  const read = (): ChatSession[] => {
+    try {
+      const saved = JSON.parse(safeLocalStorage.getItem(SESSIONS_KEY) || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (e) {
+      console.warn('Failed to parse saved sessions:', e);
+      return [];
+    }
+  };
+  const write = (sessions: ChatSession[]) => {
+    if (!safeLocalStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions))) {
+      throw new Error('Local storage is not writable');
+    }
+  };
+
+  return {
+    kind: 'localStorage',
+    list: async () => read(),
+    save: async session => write([...read().filter(s => s.id !== session.id), session]),
+    remove: async id => write(read().filter(s => s.id !== id))
+  };
+}
+
+// Sessions that last until the page is closed
+function memoryStore(): SessionStore {
+  const sessions = new Map<string, ChatSession>();
+  return {
+    kind: 'memory',
+    list: async () => Array.from(sessions.values()),
+    save: async session => {
+      sessions.set(session.id, session);
+    },
+    remove: async id => {
+      sessions.delete(id);
+    }
+  };
+}
+
+// Open the best storage the browser allows
+export async function openSessionStore(): Promise<SessionStore> {
+  if (typeof window !== 'undefined' && window.indexedDB) {
+    try {
+      return await openIndexedDbStore();
+    } catch (e) {
+      console.warn('IndexedDB is not available, falling back to local storage:', e);
+    }
+  }
+  if (safeLocalStorage.isAvailable()) {
+    return localStorageStore();
+  }
+  console.warn('Browser storage is not available - sessions will not be saved');
+  return memoryStore();
+}
+
+// The conversation saved under the keys used before sessions existed, as a session
+export function readLegacySession(): ChatSession | null {
+  let messages: Message[] = [];
+  let documentIds: string[] = [];
+  try {
+    const savedMessages = JSON.parse(safeLocalStorage.getItem(LEGACY_MESSAGES_KEY) || '[]');
+    const savedIds = JSON.parse(safeLocalStorage.getItem(LEGACY_DOCUMENTS_KEY) || '[]');
+    if (Array.isArray(savedMessages)) messages = savedMessages;
+    if (Array.isArray(savedIds)) documentIds = savedIds.filter((id): id is string => typeof id === 'string');
+  } catch (e) {
+    console.warn('Failed to parse the saved chat:', e);
+  }
+  if (messages.length === 0 && documentIds.length === 0) return null;
+  return { ...createSession('Previous chat'), messages, documentIds };
+}
+
+// Forget the pre-session conversation once it has been saved as a session
+export function clearLegacySession() {
+  safeLocalStorage.removeItem(LEGACY_MESSAGES_KEY);
+  safeLocalStorage.removeItem(LEGACY_DOCUMENTS_KEY);
+}
+
+// Sessions whose name or messages mention a search, most recently used first
+export function filterSessions(sessions: ChatSession[], search: string): ChatSession[] {
+  const needle = search.trim().toLowerCase();
+  return sessions
+    .filter(session => !needle
+      || session.name.toLowerCase().includes(needle)
+      || session.messages.some(message => (message.text || '').toLowerCase().includes(needle)))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,96 @@
+// A parsed server-sent event
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Stream server-sent events produced by `run`. The signal passed to `run` is
+ * aborted when the client disconnects or cancels, so long work can stop early.
+ * Errors thrown by `run` are sent as an `error` event before the stream closes.
+ */
+export function createSseResponse(
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal?.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, abortController.signal);
+      } catch (error: any) {
+        console.error('Error while streaming:', error);
+        send('error', { error: error.message || 'Unknown error' });
+      } finally {
+        if (!abortController.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      console.log('Client closed the event stream');
+      abortController.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Read server-sent events from a fetch response body, calling `onEvent` for each
+ * one as it arrives (EventSource only supports GET, so chat uses fetch instead)
+ */
+export async function readSseEvents(response: Response, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (dataLines.length === 0) return;
+
+    const raw = dataLines.join('\n');
+    let data: any = raw;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      // Plain-text data is passed through as a string
+    }
+    onEvent({ event, data });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,325 @@
+import { PageSpan } from '@/app/types/document';
+import { SuggestedQuestion, SuggestionBasis, SuggestionResult } from '@/app/types/suggestions';
+import { STOP_WORDS } from './bm25';
+import { isTitleLine, splitSentences } from './chunking';
+import { sentenceCitation } from './citations';
+import { LlmProvider } from './llm';
+import { buildSuggestionPrompt } from './prompts';
+import { termSimilarity } from './retrieval';
+
+export const MIN_SUGGESTIONS = 5;
+export const MAX_SUGGESTIONS = 8;
+export const DEFAULT_SUGGESTIONS = 6;
+
+const EXCERPT_LENGTH = 1500; // Opening text given to the LLM
+const MAX_SUBJECT_LENGTH = 60;
+
+// Words that are common in documents but make poor question subjects
+const GENERIC_WORDS = new Set([
+  'may', 'must', 'shall', 'should', 'one', 'two', 'per', 'each', 'more', 'most', 'other', 'only', 'new',
+  'use', 'used', 'within', 'after', 'before', 'document', 'page', 'section', 'following', 'including',
+  'however', 'therefore', 'being', 'here', 'well', 'very', 'just', 'over', 'under', 'same', 'least',
+  'many', 'much', 'make', 'made', 'see', 'get', 'set', 'like', 'yes', 'day', 'days', 'week', 'weeks',
+  'month', 'months', 'year', 'years', 'time'
+]);
+
+// Headings that say nothing about the content
+const BOILERPLATE_HEADINGS = new Set([
+  'contents', 'table of contents', 'introduction', 'overview', 'summary', 'conclusion', 'conclusions',
+  'references', 'bibliography', 'index', 'appendix'
+]);
+
+const CALENDAR_WORDS = new Set([
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+]);
+
+// Question wordings per basis, rotated so the suggestions don't all read alike
+const QUESTION_TEMPLATES: Record<Exclude<SuggestionBasis, 'llm' | 'general'>, ((subject: string) => string)[]> = {
+  heading: [
+    subject => `What does the "${subject}" section cover?`,
+    subject => `What are the key points under "${subject}"?`
+  ],
+  term: [
+    subject => `What does the document say about ${subject}?`,
+    subject => `What is meant by ${subject}?`,
+    subject => `How is ${subject} handled?`
+  ],
+  entity: [
+    subject => `What role does ${subject} play?`,
+    subject => `What does the document say about ${subject}?`
+  ]
+};
+
+// Used when a document is too short to yield enough subjects
+const GENERAL_QUESTIONS = [
+  'What is this document about?',
+  'What are the main points of this document?',
+  'Are there any deadlines or key dates?',
+  'Who is this document intended for?',
+  'What actions or requirements does the document set out?'
+];
+
+// A document to suggest questions for
+export interface SuggestionInput {
+  documentId?: string;
+  source: string;
+  text: string;
+  pageSpans?: PageSpan[];
+}
+
+export interface SuggestOptions {
+  count: number;
+  llm?: LlmProvider | null; // Without one, questions are built from templates
+  signal?: AbortSignal;
+}
+
+// Something worth asking about, with where it first appears
+interface Subject {
+  text: string;
+  basis: Exclude<SuggestionBasis, 'llm' | 'general'>;
+  score: number;
+  start: number;
+}
+
+// Clamp the requested number of questions, defaulting to six
+export function resolveSuggestionCount(value: unknown): number {
+  const count = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : DEFAULT_SUGGESTIONS;
+  return Math.min(MAX_SUGGESTIONS, Math.max(MIN_SUGGESTIONS, count));
+}
+
+const isStopWord = (word: string) => STOP_WORDS.has(word.toLowerCase()) || GENERIC_WORDS.has(word.toLowerCase());
+
+// "CODE OF CONDUCT" -> "Code of Conduct"; mixed-case text is left alone
+function titleCase(text: string): string {
+  if (text !== text.toUpperCase()) return text;
+  return text
+    .toLowerCase()
+    .split(' ')
+    .map((word, i) => i > 0 && isStopWord(word) ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Headings: title lines followed by text
+function findHeadings(text: string): Subject[] {
+  const headings: Subject[] = [];
+  const lineRegex = /[^\n]+/g;
+  let match;
+  while ((match = lineRegex.exec(text)) !== null) {
+    const line = match[0].trim();
+    const followedByText = /^\n+\s*\S/.test(text.slice(match.index + match[0].length));
+    if (!followedByText || !isTitleLine(line)) continue;
+
+    const cleaned = titleCase(line.replace(/^#+\s*/, '').replace(/^(\d+(\.\d+)*\.?|[IVX]+\.)\s+/, '').trim());
+    if (!cleaned || cleaned.length > MAX_SUBJECT_LENGTH || BOILERPLATE_HEADINGS.has(cleaned.toLowerCase())) continue;
+    if (headings.some(heading => heading.text.toLowerCase() === cleaned.toLowerCase())) continue;
+
+    // The document's title is usually its first line; it makes a poor section question
+    if (match.index === text.search(/\S/)) continue;
+    headings.push({ text: cleaned, basis: 'heading', score: 1 / (1 + headings.length * 0.1), start: match.index });
+  }
+  return headings;
+}
+
+/**
+ * Key terms: runs of one to three content words that recur. Longer phrases
+ * score higher, and a word or phrase mostly seen inside a longer key phrase
+ * gives way to it. Phrases only ever capitalized are names, left to entities.
+ */
+function findKeyTerms(text: string): Subject[] {
+  const phrases = new Map<string, { text: string; count: number; start: number; words: number; inProse: boolean }>();
+  for (const sentence of splitSentences(text, { lineBreaks: true })) {
+    // Headings are subjects of their own; terms come from the running text
+    if (isTitleLine(sentence.text)) continue;
+    const wordRegex = /[\p{L}][\p{L}'’-]*[\p{L}]/gu;
+    let run: { word: string; start: number }[] = [];
+    const flush = () => {
+      for (let i = 0; i < run.length; i++) {
+        for (let n = 1; n <= 3 && i + n <= run.length; n++) {
+          const words = run.slice(i, i + n);
+          const key = words.map(w => w.word.toLowerCase()).join(' ');
+          const entry = phrases.get(key);
+          const inProse = words.some(w => /^\p{Ll}/u.test(w.word));
+          if (entry) {
+            entry.count++;
+            entry.inProse ||= inProse;
+          } else {
+            const surface = words.map(w => /^\p{Lu}{2,}$/u.test(w.word) ? w.word : w.word.toLowerCase()).join(' ');
+            phrases.set(key, { text: surface, count: 1, start: sentence.start + words[0].start, words: n, inProse });
+          }
+        }
+      }
+      run = [];
+    };
+
+    let word;
+    let previousEnd = 0;
+    while ((word = wordRegex.exec(sentence.text)) !== null) {
+      // Punctuation between words breaks a phrase, as do stop words and short words
+      if (/\S/.test(sentence.text.slice(previousEnd, word.index))) flush();
+      previousEnd = word.index + word[0].length;
+      if (isStopWord(word[0]) || word[0].length < 3) {
+        flush();
+        continue;
+      }
+      run.push({ word: word[0], start: word.index });
+    }
+    flush();
+  }
+
+  const candidates = Array.from(phrases.values())
+    .filter(phrase => phrase.inProse && phrase.count >= (phrase.words === 1 ? 3 : 2))
+    .map(phrase => ({ ...phrase, score: phrase.count * Math.pow(phrase.words, 1.5) }));
+
+  return candidates
+    .filter(phrase => !candidates.some(longer =>
+      longer.words > phrase.words &&
+      longer.count >= phrase.count * 0.6 &&
+      ` ${longer.text.toLowerCase()} `.includes(` ${phrase.text.toLowerCase()} `)
+    ))
+    .sort((a, b) => b.score - a.score)
+    .map(phrase => ({ text: phrase.text, basis: 'term' as const, score: phrase.score, start: phrase.start }));
+}
+
+/**
+ * Entities: capitalized names (optionally joined by "of", "and", "for" or
+ * "&") in running text that aren't just the first word of a sentence. Single
+ * words must recur.
+ */
+function findEntities(text: string): Subject[] {
+  const entities = new Map<string, { count: number; start: number; words: number }>();
+  const nameRegex = /\p{Lu}[\p{L}\p{N}&'’-]*(?:(?:[ \t]+(?:of|and|for|&))?[ \t]+\p{Lu}[\p{L}\p{N}&'’-]*)*/gu;
+  let match;
+  while ((match = nameRegex.exec(text)) !== null) {
+    const lineStart = text.lastIndexOf('\n', match.index) + 1;
+    const lineEnd = text.indexOf('\n', match.index);
+    if (isTitleLine(text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim())) continue;
+
+    let words = match[0].replace(/['’-]+$/, '').split(/\s+/);
+    const before = text.slice(0, match.index).trimEnd();
+    const startsSentence = before === '' || /[.!?:\n]$/.test(before) || /\n\s*$/.test(text.slice(0, match.index));
+
+    // "The Board of Directors" -> "Board of Directors"; a sentence-initial single word is just capitalized
+    while (words.length > 0 && isStopWord(words[0])) words = words.slice(1);
+    while (words.length > 0 && isStopWord(words[words.length - 1])) words = words.slice(0, -1);
+    if (words.length === 0 || (words.length === 1 && startsSentence && words[0] === match[0].split(/\s+/)[0])) continue;
+    if (words.every(word => CALENDAR_WORDS.has(word.toLowerCase()))) continue;
+
+    const name = words.join(' ');
+    if (name.length < 2 || name.length > MAX_SUBJECT_LENGTH || !/\p{Ll}|\p{Lu}{2}/u.test(name)) continue;
+
+    const entry = entities.get(name);
+    if (entry) entry.count++;
+    else entities.set(name, { count: 1, start: match.index + match[0].indexOf(words[0]), words: words.length });
+  }
+
+  return Array.from(entities.entries())
+    .filter(([, entity]) => entity.count >= (entity.words === 1 ? 2 : 1))
+    .map(([name, entity]) => ({ text: name, basis: 'entity' as const, score: entity.count * entity.words, start: entity.start }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Whether a subject asks about much the same thing as one already chosen
+function overlaps(subject: Subject, chosen: Subject[]): boolean {
+  const text = subject.text.toLowerCase();
+  return chosen.some(other => {
+    const otherText = other.text.toLowerCase();
+    return otherText.includes(text) || text.includes(otherText) || termSimilarity(text, otherText) >= 0.5;
+  });
+}
+
+/**
+ * Pick subjects in turn from headings, key terms and entities (best first
+ * within each) so the questions cover the document's structure, vocabulary
+ * and the names in it, skipping near-duplicates
+ */
+function pickSubjects(lists: Subject[][], count: number): Subject[] {
+  const chosen: Subject[] = [];
+  const positions = lists.map(() => 0);
+  let progress = true;
+  while (chosen.length < count && progress) {
+    progress = false;
+    lists.forEach((list, i) => {
+      while (chosen.length < count && positions[i] < list.length) {
+        const subject = list[positions[i]++];
+        progress = true;
+        if (!overlaps(subject, chosen)) {
+          chosen.push(subject);
+          break;
+        }
+      }
+    });
+  }
+  return chosen;
+}
+
+// Lines of the model's reply that are questions, without numbering or bullets
+function parseQuestions(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^"|"$/g, '').trim())
+    .filter(line => line.endsWith('?') && line.length <= 200);
+}
+
+/**
+ * Starter questions for a document. Headings, recurring key terms and named
+ * entities are found in the text and turned into questions from templates;
+ * with an LLM provider the model writes the questions from the same outline
+ * and the document's opening, falling back to the templates if it fails.
+ * Short documents are topped up with general questions.
+ */
+export async function suggestQuestions(input: SuggestionInput, options: SuggestOptions): Promise<SuggestionResult> {
+  const headings = findHeadings(input.text);
+  const terms = findKeyTerms(input.text);
+  const entities = findEntities(input.text);
+  const subjects = pickSubjects([headings, terms, entities], options.count);
+
+  let method: SuggestionResult['method'] = 'extractive';
+  let questions: SuggestedQuestion[] = [];
+
+  if (options.llm && input.text.trim()) {
+    try {
+      const messages = buildSuggestionPrompt(
+        input.source,
+        headings.slice(0, 12).map(heading => heading.text),
+        [...terms.slice(0, 8), ...entities.slice(0, 4)].map(subject => subject.text),
+        input.text.slice(0, EXCERPT_LENGTH),
+        options.count
+      );
+      const generated = parseQuestions(await options.llm.generate(messages, { signal: options.signal }));
+      if (generated.length < MIN_SUGGESTIONS) {
+        throw new Error(`Only ${generated.length} questions in the reply`);
+      }
+      questions = generated.slice(0, options.count).map(text => ({ text, basis: 'llm' }));
+      method = 'llm';
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('LLM suggestions failed, using templates:', error);
+    }
+  }
+
+  if (method === 'extractive') {
+    const used = { heading: 0, term: 0, entity: 0 };
+    questions = subjects.map(subject => {
+      const templates = QUESTION_TEMPLATES[subject.basis];
+      return {
+        text: templates[used[subject.basis]++ % templates.length](subject.text),
+        basis: subject.basis,
+        subject: subject.text,
+        citation: sentenceCitation(input, subject.start, subject.basis === 'heading')
+      };
+    });
+  }
+
+  for (const text of GENERAL_QUESTIONS) {
+    if (questions.length >= MIN_SUGGESTIONS) break;
+    questions.push({ text, basis: 'general' });
+  }
+
+  return {
+    documentId: input.documentId,
+    source: input.source,
+    questions,
+    method
+  };
+}
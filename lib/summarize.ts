@@ -0,0 +1,319 @@
+import { Document } from '@langchain/core/documents';
+import { Citation } from '@/app/types/chat';
+import { DocumentSummaryResult, SummaryLength, SummarySection } from '@/app/types/summary';
+import { ChunkingOptions, ChunkMetadata, splitSentences } from './chunking';
+import { tokenize } from './bm25';
+import { LlmProvider } from './llm';
+import { findPageRange } from './pages';
+import { normalizeCitationMarkers } from './citations';
+import { maximalMarginalRelevance, termSimilarity } from './retrieval';
+import { buildSummaryMapPrompt, buildSummaryReducePrompt } from './prompts';
+
+export const SUMMARY_LENGTHS: SummaryLength[] = ['one-liner', 'abstract', 'sections'];
+
+// Larger, non-overlapping chunks keep the number of map steps down
+export const SUMMARY_CHUNKING: ChunkingOptions = { chunkSize: 3000, chunkOverlap: 0 };
+
+const MAX_SECTIONS = 8;
+const MAX_LLM_MAP_STEPS = 12; // Longer documents use extractive notes for the map step
+const MAP_CONCURRENCY = 4;
+const MAP_TIME_BUDGET_MS = 25000; // Later map steps use extractive notes, leaving time to reduce within the route's limit
+
+// What the reduce step is asked for, and how many sentences an extractive summary quotes
+const LENGTH_SETTINGS: Record<SummaryLength, { instruction: string; sentences: number }> = {
+  'one-liner': { instruction: 'Write a single sentence.', sentences: 1 },
+  abstract: { instruction: 'Write one paragraph of four to six sentences.', sentences: 5 },
+  sections: { instruction: 'Write two to four sentences.', sentences: 2 }
+};
+
+// Fall back to an abstract for unknown lengths
+export function resolveSummaryLength(value: unknown): SummaryLength {
+  return SUMMARY_LENGTHS.includes(value as SummaryLength) ? value as SummaryLength : 'abstract';
+}
+
+// A sentence with its offsets in the document's text
+interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+  score: number;
+}
+
+// A chunk summarized in the map step, with its sentences ranked by centrality
+interface SummaryUnit {
+  chunk: Document<ChunkMetadata>;
+  sentences: Sentence[];
+}
+
+// Consecutive units summarized together
+interface Section {
+  title: string;
+  units: SummaryUnit[];
+}
+
+export interface SummarizeOptions {
+  length: SummaryLength;
+  llm?: LlmProvider | null; // Without one, summaries quote the most central sentences
+  signal?: AbortSignal;
+}
+
+// Sentences of a chunk long enough to stand on their own
+function sentencesOf(chunk: Document<ChunkMetadata>): Omit<Sentence, 'score'>[] {
+  const sentences: Omit<Sentence, 'score'>[] = [];
+
+  // Line breaks end sentences too, so headings stay separate
+  for (const { text, start } of splitSentences(chunk.pageContent, { lineBreaks: true })) {
+    if (text.length < 30 || text.length > 500 || tokenize(text).length < 4) continue;
+    const absoluteStart = chunk.metadata.start + start;
+    sentences.push({ text, start: absoluteStart, end: absoluteStart + text.length });
+  }
+
+  return sentences;
+}
+
+/**
+ * Rank every sentence by how central it is to the document: terms that recur
+ * throughout the text carry the gist, so sentences made of them score highest.
+ */
+function buildUnits(chunks: Document<ChunkMetadata>[]): SummaryUnit[] {
+  const raw = chunks.map(chunk => sentencesOf(chunk));
+  const frequencies = new Map<string, number>();
+  raw.flat().forEach(sentence => {
+    new Set(tokenize(sentence.text)).forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+  });
+
+  return chunks.map((chunk, i) => ({
+    chunk,
+    sentences: raw[i]
+      .map(sentence => {
+        const terms = Array.from(new Set(tokenize(sentence.text)));
+        const weight = terms.reduce((sum, term) => sum + Math.log(frequencies.get(term) || 1), 0);
+        return { ...sentence, score: weight / Math.sqrt(terms.length) };
+      })
+      .sort((a, b) => b.score - a.score)
+  }));
+}
+
+// "Pages 2–4", "Page 2", or "Part n" for documents without pages
+function pagesTitle(units: SummaryUnit[], part: number): string {
+  const first = units[0].chunk.metadata;
+  const last = units[units.length - 1].chunk.metadata;
+  if (!first.pageSpans || first.pageSpans.length === 0) return `Part ${part}`;
+
+  const lastPage = last.pageEnd ?? last.page;
+  return lastPage > first.page ? `Pages ${first.page}–${lastPage}` : `Page ${first.page}`;
+}
+
+// Split items into at most `count` runs of similar size, keeping their order
+function partition<T>(items: T[], count: number): T[][] {
+  const size = Math.ceil(items.length / Math.min(count, items.length));
+  const parts: T[][] = [];
+  for (let i = 0; i < items.length; i += size) parts.push(items.slice(i, i + size));
+  return parts;
+}
+
+/**
+ * Group units into sections: by the document's own headings when it has them,
+ * otherwise into page ranges. Either way there are at most MAX_SECTIONS.
+ */
+function groupSections(units: SummaryUnit[]): Section[] {
+  if (units.some(unit => unit.chunk.metadata.heading)) {
+    const byHeading: Section[] = [];
+    for (const unit of units) {
+      const title = unit.chunk.metadata.heading || 'Introduction';
+      const current = byHeading[byHeading.length - 1];
+      if (current && current.title === title) {
+        current.units.push(unit);
+      } else {
+        byHeading.push({ title, units: [unit] });
+      }
+    }
+
+    return partition(byHeading, MAX_SECTIONS).map(group => ({
+      title: group.length > 1 ? `${group[0].title} – ${group[group.length - 1].title}` : group[0].title,
+      units: group.flatMap(section => section.units)
+    }));
+  }
+
+  return partition(units, Math.min(MAX_SECTIONS, Math.ceil(units.length / 2)))
+    .map((group, i) => ({ title: pagesTitle(group, i + 1), units: group }));
+}
+
+// Cite a sentence with its exact span and pages
+function toCitation(sentence: Omit<Sentence, 'score'>, chunk: Document<ChunkMetadata>, marker: number): Citation {
+  return {
+    marker,
+    text: sentence.text,
+    source: chunk.metadata.source || 'Document',
+    documentId: chunk.metadata.documentId,
+    start: sentence.start,
+    end: sentence.end,
+    ...findPageRange(chunk.metadata.pageSpans, sentence.start, sentence.end)
+  };
+}
+
+// The sentence that best represents a unit, or its opening when it has no full sentences
+function keySentence(unit: SummaryUnit): Omit<Sentence, 'score'> {
+  if (unit.sentences.length > 0) return unit.sentences[0];
+  const text = unit.chunk.pageContent.substring(0, 300).trim();
+  return { text, start: unit.chunk.metadata.start, end: unit.chunk.metadata.start + text.length };
+}
+
+// Pages covered by a run of units
+function pageRange(units: SummaryUnit[]): { page: number; pageEnd?: number } {
+  const first = units[0].chunk.metadata;
+  const last = units[units.length - 1].chunk.metadata;
+  const pageEnd = last.pageEnd ?? last.page;
+  return pageEnd > first.page ? { page: first.page, pageEnd } : { page: first.page };
+}
+
+// Quote the most central, non-redundant sentences in document order, each with its marker
+function extractiveSection(title: string, units: SummaryUnit[], count: number, firstMarker: number): SummarySection {
+  let candidates = units.flatMap(unit => unit.sentences.map(sentence => ({ sentence, chunk: unit.chunk })));
+  // Without full sentences (lists, tables), quote the units' openings instead
+  if (candidates.length === 0) {
+    candidates = units
+      .map(unit => ({ sentence: { ...keySentence(unit), score: 0 }, chunk: unit.chunk }))
+      .filter(candidate => candidate.sentence.text);
+  }
+  const picked = maximalMarginalRelevance(
+    candidates,
+    candidate => candidate.sentence.score,
+    (a, b) => termSimilarity(a.sentence.text, b.sentence.text),
+    0.7,
+    count
+  ).sort((a, b) => a.sentence.start - b.sentence.start);
+
+  const citations = picked.map((candidate, i) => toCitation(candidate.sentence, candidate.chunk, firstMarker + i));
+  return {
+    title,
+    text: citations.map(citation => `${citation.text} [${citation.marker}]`).join(' '),
+    ...pageRange(units),
+    citations
+  };
+}
+
+// Run tasks a few at a time, keeping results in order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await task(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// A unit's note for the map step without the LLM: its key sentences
+function extractiveNote(unit: SummaryUnit): string {
+  return unit.sentences.slice(0, 2).map(s => s.text).join(' ') || keySentence(unit).text;
+}
+
+/**
+ * Map step with the LLM: a short note per unit (or its key sentences for long
+ * documents, and for the units left once the time budget is spent). Reduce
+ * step: merge a section's notes, citing them by number; each note is cited
+ * through its unit's key sentence.
+ */
+async function llmSections(
+  sections: Section[],
+  source: string,
+  { length, llm, signal }: SummarizeOptions & { llm: LlmProvider }
+): Promise<SummarySection[]> {
+  const units = sections.flatMap(section => section.units.map(unit => ({ unit, section: section.title })));
+  const useLlmMap = units.length <= MAX_LLM_MAP_STEPS;
+  const deadline = Date.now() + MAP_TIME_BUDGET_MS;
+  const notes = await mapWithConcurrency(units, MAP_CONCURRENCY, async ({ unit, section }) => {
+    if (!useLlmMap || Date.now() > deadline) return extractiveNote(unit);
+    const note = await llm.generate(buildSummaryMapPrompt(unit.chunk.pageContent, source, section), {
+      maxTokens: 160,
+      signal
+    });
+    return note.trim() || keySentence(unit).text;
+  });
+
+  // One-liners and abstracts reduce all notes at once
+  const groups = length === 'sections'
+    ? sections
+    : [{ title: source, units: sections.flatMap(section => section.units) }];
+  const offsets = groups.map((_, i) => groups.slice(0, i).reduce((sum, group) => sum + group.units.length, 0));
+
+  // Sections are reduced a few at a time too, so they fit in the route's time limit
+  return mapWithConcurrency(groups.map((group, i) => ({ group, offset: offsets[i] })), MAP_CONCURRENCY, async ({ group, offset }) => {
+    const groupNotes = notes.slice(offset, offset + group.units.length);
+    const generated = await llm.generate(
+      buildSummaryReducePrompt(groupNotes, source, LENGTH_SETTINGS[length].instruction),
+      { maxTokens: length === 'one-liner' ? 96 : 400, signal }
+    );
+
+    // Notes are numbered per group; shift them to markers that are unique across sections
+    const text = normalizeCitationMarkers(generated, group.units.length)
+      .trim()
+      .replace(/\[(\d+)\]/g, (_, n: string) => `[${Number(n) + offset}]`);
+    if (!text) throw new Error(`Empty summary for "${group.title}"`);
+
+    const citations = group.units.map((unit, i) => toCitation(keySentence(unit), unit.chunk, offset + i + 1));
+    const cited = citations.filter(citation => text.includes(`[${citation.marker}]`));
+    return {
+      title: group.title,
+      text,
+      ...pageRange(group.units),
+      citations: cited.length > 0 ? cited : citations
+    };
+  });
+}
+
+/**
+ * Summarize a chunked document with map-reduce. Uses the LLM provider when one
+ * is given and falls back to an extractive summary if it fails.
+ */
+export async function summarizeDocument(
+  chunks: Document<ChunkMetadata>[],
+  options: SummarizeOptions
+): Promise<DocumentSummaryResult> {
+  const { length, llm } = options;
+  const source = chunks[0]?.metadata.source || 'Document';
+  const units = buildUnits(chunks);
+  const sections = groupSections(units);
+  let method: DocumentSummaryResult['method'] = 'extractive';
+  let results: SummarySection[] | null = null;
+
+  if (llm && units.length > 0) {
+    try {
+      results = await llmSections(sections, source, { ...options, llm });
+      method = 'llm';
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('LLM summarization failed, using extractive summary:', error);
+    }
+  }
+
+  if (!results) {
+    const count = LENGTH_SETTINGS[length].sentences;
+    if (length === 'sections') {
+      results = [];
+      let marker = 1;
+      for (const section of sections) {
+        const result = extractiveSection(section.title, section.units, count, marker);
+        marker += result.citations.length;
+        if (result.citations.length > 0) results.push(result);
+      }
+    } else {
+      results = units.length > 0 ? [extractiveSection(source, units, count, 1)] : [];
+    }
+  }
+
+  return {
+    documentId: chunks[0]?.metadata.documentId,
+    source,
+    length,
+    method,
+    summary: length === 'sections'
+      ? results.map(section => `${section.title}\n${section.text}`).join('\n\n')
+      : results.map(section => section.text).join('\n\n'),
+    sections: results
+  };
+}
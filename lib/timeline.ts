@@ -0,0 +1,237 @@
+import { DatePrecision, DocumentDateSource, TimelineEvent, TimelineResult } from '@/app/types/timeline';
+import { CitableText, sentenceCitation } from './citations';
+import { findDates, isoDate, MONTH_PATTERN, monthNumber } from './extract';
+
+const MAX_EVENTS = 200;
+const HEADER_LENGTH = 300; // A date this close to the start is taken as the document's own date
+const LABEL_DISTANCE = 40; // How far before a date its "Dated:" label may be
+
+// Labels that make a date the document's own: "Dated:", "Effective date", "made on", ...
+const DOCUMENT_DATE_LABEL_REGEX =
+  /\b(?:dated?|effective(?:\s+date)?|made\s+on|entered\s+into\s+on|as\s+of|issued(?:\s+on)?|held\s+on|prepared\s+on|report\s+date|meeting\s+date)\b[\s:,–-]*(?:on\s+)?$/i;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, sixty: 60, ninety: 90
+};
+
+export interface TimelineInput extends CitableText {
+  uploadedAt?: string; // ISO timestamp, the last resort for resolving relative dates
+}
+
+// A date expression found in the text, normalized
+interface DateMatch {
+  date: string;
+  precision: DatePrecision;
+  relative: boolean;
+  start: number;
+  end: number;
+}
+
+// Whether a value is a valid YYYY-MM-DD date
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return !!match && isoDate(+match[1], +match[2], +match[3]) === value;
+}
+
+const toUtc = (date: string) => new Date(`${date}T00:00:00Z`);
+const fromUtc = (date: Date) => date.toISOString().slice(0, 10);
+
+function addDays(date: string, days: number): string {
+  const result = toUtc(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUtc(result);
+}
+
+// Add months, keeping the day within the target month (Jan 31 + 1 month = Feb 28/29)
+function addMonths(date: string, months: number): string {
+  const current = toUtc(date);
+  const target = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(current.getUTCDate(), lastDay));
+  return fromUtc(target);
+}
+
+// The first day of the month or year a date falls in, for coarse precisions
+function truncate(date: string, precision: DatePrecision): string {
+  if (precision === 'month') return `${date.slice(0, 7)}-01`;
+  if (precision === 'year') return `${date.slice(0, 4)}-01-01`;
+  return date;
+}
+
+// Collect matches of a global regex; `resolve` returns null to skip one
+function collect(
+  text: string,
+  regex: RegExp,
+  resolve: (match: RegExpExecArray) => Omit<DateMatch, 'start' | 'end'> | null
+): DateMatch[] {
+  const matches: DateMatch[] = [];
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const resolved = resolve(match);
+    if (resolved) matches.push({ ...resolved, start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+}
+
+/**
+ * Dates written out in full: the day dates structured extraction reads, plus
+ * month-and-year ("March 2024") and years after a preposition ("since 2019")
+ */
+function findAbsoluteDates(text: string): DateMatch[] {
+  const days: DateMatch[] = findDates(text).map(match => ({
+    date: match.value as string,
+    precision: 'day',
+    relative: false,
+    start: match.start,
+    end: match.end
+  }));
+  const months = collect(text, new RegExp(`\\b(${MONTH_PATTERN})\\.?,?\\s+((?:19|20)\\d{2})\\b`, 'gi'), m => {
+    const date = isoDate(+m[2], monthNumber(m[1]), 1);
+    return date ? { date, precision: 'month', relative: false } : null;
+  });
+  const years = collect(text, /\b(?:in|since|during|from|until|till|by|before|after|early|late|mid)[\s-]+((?:19|20)\d{2})\b(?![/.-]\d)/gi, m => ({
+    date: `${m[1]}-01-01`,
+    precision: 'year',
+    relative: false
+  }));
+
+  // Year matches start at their preposition; only the year itself is the expression
+  const yearsOnly = years.map(match => ({ ...match, start: match.end - 4 }));
+  return [...days, ...months, ...yearsOnly];
+}
+
+// The weekday on or around an anchor date: the previous one ("last"), the next one, or this week's
+function weekdayFrom(anchor: string, weekday: number, direction: 'last' | 'next' | 'this'): string {
+  const current = toUtc(anchor).getUTCDay();
+  if (direction === 'last') return addDays(anchor, -(((current - weekday + 6) % 7) + 1));
+  if (direction === 'next') return addDays(anchor, ((weekday - current + 6) % 7) + 1);
+  return addDays(anchor, weekday - current);
+}
+
+/**
+ * Dates relative to the document date: "yesterday", "last week", "next
+ * Friday", "three months ago", "30 days from the date hereof". Offsets from
+ * other events ("30 days after delivery") are left alone, as they don't say
+ * when anything happened.
+ */
+function findRelativeDates(text: string, anchor: string): DateMatch[] {
+  const dayWords = collect(text, /\b(yesterday|today|tomorrow)\b/gi, m => ({
+    date: addDays(anchor, { yesterday: -1, today: 0, tomorrow: 1 }[m[1].toLowerCase() as 'yesterday' | 'today' | 'tomorrow']),
+    precision: 'day',
+    relative: true
+  }));
+
+  const named = collect(
+    text,
+    new RegExp(`\\b(last|previous|next|following|coming|this)\\s+(week|month|year|${WEEKDAYS.join('|')})\\b`, 'gi'),
+    m => {
+      const qualifier = m[1].toLowerCase();
+      const direction = qualifier === 'this' ? 'this' : ['last', 'previous'].includes(qualifier) ? 'last' : 'next';
+      const step = direction === 'this' ? 0 : direction === 'last' ? -1 : 1;
+      const unit = m[2].toLowerCase();
+      if (unit === 'week') return { date: addDays(anchor, step * 7), precision: 'day', relative: true };
+      if (unit === 'month') return { date: truncate(addMonths(anchor, step), 'month'), precision: 'month', relative: true };
+      if (unit === 'year') return { date: truncate(addMonths(anchor, step * 12), 'year'), precision: 'year', relative: true };
+      return { date: weekdayFrom(anchor, WEEKDAYS.indexOf(unit), direction), precision: 'day', relative: true };
+    }
+  );
+
+  const offsets = collect(
+    text,
+    new RegExp(
+      `\\b(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})\\s+(day|week|month|year)s?\\s+(ago|from\\s+(?:now|today|the\\s+date\\s+(?:hereof|of\\s+this\\s+(?:agreement|document|report|letter|notice))))\\b`,
+      'gi'
+    ),
+    m => {
+      const count = NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1]);
+      const sign = m[3].toLowerCase() === 'ago' ? -1 : 1;
+      const unit = m[2].toLowerCase();
+      if (unit === 'day' || unit === 'week') {
+        return { date: addDays(anchor, sign * count * (unit === 'week' ? 7 : 1)), precision: 'day', relative: true };
+      }
+      const precision: DatePrecision = unit === 'month' ? 'month' : 'year';
+      const date = addMonths(anchor, sign * count * (unit === 'year' ? 12 : 1));
+      return { date: truncate(date, precision), precision, relative: true };
+    }
+  );
+
+  return [...dayWords, ...named, ...offsets];
+}
+
+// Keep the earliest-listed of overlapping matches (more specific patterns come first)
+function dropOverlaps(matches: DateMatch[]): DateMatch[] {
+  const kept: DateMatch[] = [];
+  for (const match of matches) {
+    if (!kept.some(other => match.start < other.end && other.start < match.end)) kept.push(match);
+  }
+  return kept;
+}
+
+/**
+ * The date relative expressions count from: the one given with the request,
+ * else a labeled date ("Dated: ...", "made on ...") or a date in the
+ * document's header, else the day it was uploaded
+ */
+function findDocumentDate(
+  input: TimelineInput,
+  dates: DateMatch[],
+  requested?: string
+): { date: string; source: DocumentDateSource } | null {
+  if (requested) return { date: requested, source: 'request' };
+
+  const days = dates.filter(match => match.precision === 'day');
+  const labeled = days.find(match => {
+    const lineStart = input.text.lastIndexOf('\n', match.start - 1) + 1;
+    const before = input.text.slice(Math.max(lineStart, match.start - LABEL_DISTANCE), match.start);
+    return DOCUMENT_DATE_LABEL_REGEX.test(before);
+  });
+  const inHeader = days.find(match => match.start < HEADER_LENGTH);
+  const found = labeled || inHeader;
+  if (found) return { date: found.date, source: 'text' };
+
+  if (input.uploadedAt && !Number.isNaN(Date.parse(input.uploadedAt))) {
+    return { date: input.uploadedAt.slice(0, 10), source: 'upload' };
+  }
+  return null;
+}
+
+/**
+ * Dated events of a document in chronological order. Absolute dates are
+ * normalized to YYYY-MM-DD (with the precision the text gave); relative ones
+ * are resolved against the document date and skipped when there is none.
+ * Each event cites the sentence its date appears in.
+ */
+export function buildTimeline(input: TimelineInput, documentDate?: string): TimelineResult {
+  const absolute = dropOverlaps(findAbsoluteDates(input.text));
+  const anchor = findDocumentDate(input, absolute, documentDate);
+  const relative = anchor ? findRelativeDates(input.text, anchor.date) : [];
+  const matches = dropOverlaps([...absolute, ...relative]);
+
+  const events: TimelineEvent[] = [];
+  for (const match of matches.sort((a, b) => a.date.localeCompare(b.date) || a.start - b.start)) {
+    const citation = sentenceCitation(input, match.start);
+    // The same date mentioned twice in one sentence is one event
+    if (events.some(event => event.date === match.date && event.citation.start === citation.start)) continue;
+    events.push({
+      date: match.date,
+      precision: match.precision,
+      expression: input.text.slice(match.start, match.end),
+      relative: match.relative,
+      sentence: citation.text,
+      citation
+    });
+    if (events.length >= MAX_EVENTS) break;
+  }
+
+  return {
+    documentId: input.documentId,
+    source: input.source,
+    documentDate: anchor?.date,
+    documentDateSource: anchor?.source,
+    events
+  };
+}
@@ -0,0 +1,81 @@
+import { cosineSimilarity } from './embeddings';
+
+export interface VectorSearchResult {
+  index: number; // Position of the vector in insertion order
+  score: number; // Cosine similarity (vectors are unit length)
+}
+
+// Minimal vector index used by the retriever
+export interface VectorIndex {
+  readonly dimensions: number;
+  readonly size: number;
+  add(vectors: number[][]): void;
+  search(query: number[], limit: number): VectorSearchResult[];
+}
+
+/**
+ * Exact inner-product search backed by FAISS (faiss-node)
+ */
+class FaissVectorIndex implements VectorIndex {
+  constructor(private readonly index: import('faiss-node').IndexFlatIP, readonly dimensions: number) {}
+
+  get size(): number {
+    return this.index.ntotal();
+  }
+
+  add(vectors: number[][]): void {
+    if (vectors.length === 0) return;
+    this.index.add(vectors.flat());
+  }
+
+  search(query: number[], limit: number): VectorSearchResult[] {
+    const k = Math.min(limit, this.size);
+    if (k === 0) return [];
+
+    const { distances, labels } = this.index.search(query, k);
+    return labels
+      .map((label, i) => ({ index: label, score: distances[i] }))
+      .filter(result => result.index >= 0);
+  }
+}
+
+/**
+ * Brute-force cosine search, used when the faiss-node native binding is unavailable
+ */
+class InMemoryVectorIndex implements VectorIndex {
+  private readonly vectors: number[][] = [];
+
+  constructor(readonly dimensions: number) {}
+
+  get size(): number {
+    return this.vectors.length;
+  }
+
+  add(vectors: number[][]): void {
+    this.vectors.push(...vectors);
+  }
+
+  search(query: number[], limit: number): VectorSearchResult[] {
+    return this.vectors
+      .map((vector, index) => ({ index, score: cosineSimilarity(query, vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+let faissUnavailable = false;
+
+// Create a vector index, preferring FAISS and falling back to brute force
+export async function createVectorIndex(dimensions: number): Promise<VectorIndex> {
+  if (!faissUnavailable) {
+    try {
+      const { IndexFlatIP } = await import('faiss-node');
+      return new FaissVectorIndex(new IndexFlatIP(dimensions), dimensions);
+    } catch (error) {
+      // Only warn once, the binding won't appear later in the same process
+      faissUnavailable = true;
+      console.warn('faiss-node is unavailable, using in-memory vector search:', error);
+    }
+  }
+  return new InMemoryVectorIndex(dimensions);
+}
@@ -5,7 +5,11 @@ const nextConfig = {
   
   // Configure memory limit for serverless functions
   experimental: {
-    serverComponentsExternalPackages: ['pdfjs-dist']
+    serverComponentsExternalPackages: ['pdfjs-dist', 'faiss-node'],
+    // Server-side pdf.js reads the predefined CMaps and standard fonts from its package
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./node_modules/pdfjs-dist/cmaps/**/*', './node_modules/pdfjs-dist/standard_fonts/**/*']
+    }
   },
   
   // Enable source maps in production for better error reporting